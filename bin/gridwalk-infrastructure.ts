@@ -1,9 +1,31 @@
 #!/usr/bin/env node
 import 'source-map-support/register';
 import * as cdk from 'aws-cdk-lib';
+import { AwsSolutionsChecks, NagPackProps, NIST80053R5Checks } from 'cdk-nag';
 import { GridwalkInfrastructureStack } from '../lib/gridwalk-infrastructure-stack';
-
-const prod  = { account: '017820660020', region: 'us-east-1' };
+import { loadConfig } from '../lib/config';
+import { applyNagSuppressions, WarningsAsErrorsLogger } from '../lib/compliance';
 
 const app = new cdk.App();
-new GridwalkInfrastructureStack(app, 'GridwalkInfrastructureProd', { env: prod });
+const config = loadConfig(app);
+
+// e.g. prod -> GridwalkInfrastructureProd, preview-42 -> GridwalkInfrastructurePreview42
+const stackSuffix = config.envName
+  .split('-')
+  .map((part) => part.charAt(0).toUpperCase() + part.slice(1))
+  .join('');
+
+const stack = new GridwalkInfrastructureStack(app, `GridwalkInfrastructure${stackSuffix}`, {
+  env: { account: config.account, region: config.region },
+  config: config,
+});
+
+// Rule findings fail synth unless lib/compliance.ts suppresses them, with reports
+// of every rule written to cdk.out
+applyNagSuppressions(stack, config);
+const nagProps: NagPackProps = {
+  verbose: true,
+  additionalLoggers: config.compliance.warningsAsErrors ? [new WarningsAsErrorsLogger()] : [],
+};
+cdk.Aspects.of(app).add(new AwsSolutionsChecks(nagProps));
+cdk.Aspects.of(app).add(new NIST80053R5Checks(nagProps));
@@ -0,0 +1,9 @@
+module.exports = {
+  testEnvironment: 'node',
+  // Lambda handler tests live next to the handlers so that they resolve the handlers' dependencies
+  roots: ['<rootDir>/test', '<rootDir>/lib'],
+  testMatch: ['**/*.test.ts'],
+  transform: {
+    '^.+\\.tsx?$': 'ts-jest'
+  }
+};
@@ -0,0 +1,415 @@
+import * as cdk from 'aws-cdk-lib';
+import {
+  INagLogger,
+  NagLoggerErrorData,
+  NagLoggerNonComplianceData,
+  NagMessageLevel,
+  NagPackSuppressionAppliesTo,
+  NagSuppressions,
+} from 'cdk-nag';
+import { IConstruct } from 'constructs';
+import { GridwalkConfig } from './config';
+
+export type NagRuleId = `AwsSolutions-${string}` | `NIST.800.53.R5-${string}` | 'CdkNagValidationFailure';
+
+export interface NagSuppression {
+  id: NagRuleId;
+  // Why the finding is accepted, shown next to it in the synth output
+  reason: string;
+  // Construct paths below the stack, children included; only omitted for appliesTo findings, which then apply stack-wide
+  paths?: string[];
+  // Findings of a granular rule, e.g. one managed policy or wildcard of AwsSolutions-IAM5
+  appliesTo?: NagPackSuppressionAppliesTo[];
+  // Only suppress when the environment's config causes the finding
+  when?: (config: GridwalkConfig) => boolean;
+}
+
+const taskDefinitions = ['Gridwalk/Backend', 'Gridwalk/Ui', 'Gridwalk/Product', 'Gridwalk/Tiles', 'Ingestion', 'Ops'].map((service) => `${service}/TaskDef`);
+const buckets = ['Ingestion/LandingBucket', 'TileCache/Bucket', 'Waf/LogBucket'];
+const databaseSecrets = ['Database/Database/Secret', 'Database/App', 'Database/Read', 'Database/Gisadmin'];
+const externalSecrets = ['ExternalSecrets/Nodemailer', 'ExternalSecrets/OsApi'];
+// The two singletons are the handlers of CDK's AwsCustomResource and AwsApi event targets
+const functions = [
+  'AWS679f53fac002430cb0da5b7982bd2287',
+  'AWSb4cf1abd4e4f4bc699441af7ccd9ec37',
+  'Database/DatabaseInit',
+  'Database/DatabaseInitProvider',
+  'DatabaseMigrations/DatabaseMigrations',
+  'DatabaseMigrations/DatabaseMigrationsProvider',
+  'GridwalkTableChanges/Consumer',
+  'TileCache/InvalidateTiles',
+  'ViewRefresh/RefreshViews',
+];
+const logGroups = [
+  ...['Gridwalk/Backend', 'Gridwalk/Ui', 'Gridwalk/Product', 'Gridwalk/Tiles', 'Ingestion', 'Ops', 'Waf'].map((owner) => `${owner}/LogGroup`),
+  'ExecuteCommandLogGroup',
+];
+
+// Every accepted cdk-nag finding, with its justification
+export const nagSuppressions: NagSuppression[] = [
+  // IAM
+  {
+    id: 'AwsSolutions-IAM4',
+    reason: 'AWS managed policies CDK attaches to Lambda functions for logging and, in the VPC, network interfaces',
+    appliesTo: [
+      'Policy::arn:<AWS::Partition>:iam::aws:policy/service-role/AWSLambdaBasicExecutionRole',
+      'Policy::arn:<AWS::Partition>:iam::aws:policy/service-role/AWSLambdaVPCAccessExecutionRole',
+    ],
+  },
+  {
+    id: 'AwsSolutions-IAM4',
+    reason: 'Service roles for enhanced monitoring, CodeDeploy and AWS Backup follow their AWS managed policies as the services change',
+    appliesTo: [
+      'Policy::arn:<AWS::Partition>:iam::aws:policy/service-role/AmazonRDSEnhancedMonitoringRole',
+      'Policy::arn:<AWS::Partition>:iam::aws:policy/AWSCodeDeployRoleForECS',
+      'Policy::arn:<AWS::Partition>:iam::aws:policy/service-role/AWSBackupServiceRolePolicyForBackup',
+    ],
+  },
+  {
+    id: 'AwsSolutions-IAM5',
+    reason: 'ecr:GetAuthorizationToken only accepts Resource *; image pulls are scoped to the repositories',
+    paths: taskDefinitions.map((taskDefinition) => `${taskDefinition}/ExecutionRole`),
+    appliesTo: ['Resource::*'],
+  },
+  {
+    id: 'AwsSolutions-IAM5',
+    reason: 'ECS Exec channels and logs:DescribeLogGroups only accept Resource *, and sessions write streams in the one exec log group. TaskRoleLeastPrivilege checks everything else',
+    paths: taskDefinitions.map((taskDefinition) => `${taskDefinition}/TaskRole`),
+    appliesTo: ['Resource::*', { regex: '/^Resource::arn:aws:logs:[^:]+:\\d+:log-group:<ExecuteCommandLogGroup[A-F0-9]{8}>:\\*$/' }],
+  },
+  {
+    id: 'AwsSolutions-IAM5',
+    reason: 'Ingestion reads the uploaded objects with grantRead on the landing bucket only',
+    paths: ['Ingestion/TaskDef/TaskRole'],
+    appliesTo: [
+      'Action::s3:GetBucket*',
+      'Action::s3:GetObject*',
+      'Action::s3:List*',
+      { regex: '/^Resource::<IngestionLandingBucket[A-F0-9]{8}\\.Arn>\\/\\*$/' },
+    ],
+  },
+  {
+    id: 'AwsSolutions-IAM5',
+    reason: 'EventBridge tags the ingestion tasks it starts, whose IDs are only known at run time, and only on the cluster',
+    paths: ['Ingestion/TaskDef/EventsRole'],
+    appliesTo: [{ regex: '/^Resource::arn:aws:ecs:[^:]+:\\*:task\\/<Cluster[A-F0-9]{8}>\\/\\*$/' }],
+  },
+  {
+    id: 'AwsSolutions-IAM5',
+    reason: 'Custom resource providers invoke any version of their own handler function',
+    paths: ['Database/DatabaseInitProvider', 'DatabaseMigrations/DatabaseMigrationsProvider'],
+    appliesTo: [{ regex: '/^Resource::<[A-Za-z0-9]+\\.Arn>:\\*$/' }],
+  },
+  {
+    id: 'AwsSolutions-IAM5',
+    reason: 'events:PutEvents on the default bus, s3:PutBucketNotification and the log retention calls only accept Resource *',
+    paths: [
+      'ViewRefresh/RefreshViews',
+      'GridwalkTableChanges/Consumer',
+      'BucketNotificationsHandler050a0587b7544547bf325f094a3db834',
+      'LogRetentionaae0aa3c5b4d4f87b02d85b201efdd8a',
+    ],
+    appliesTo: ['Resource::*'],
+  },
+  {
+    id: 'NIST.800.53.R5-IAMNoInlinePolicy',
+    reason: 'Permissions come from grants on the resources, which CDK keeps in one inline default policy per role so they are deleted with it',
+    paths: [
+      ...taskDefinitions,
+      ...functions,
+      'BucketNotificationsHandler050a0587b7544547bf325f094a3db834',
+      'LogRetentionaae0aa3c5b4d4f87b02d85b201efdd8a',
+      'Gridwalk/Backend/Deployment',
+    ],
+  },
+
+  // Lambda
+  {
+    id: 'NIST.800.53.R5-LambdaDLQ',
+    reason: 'Functions are invoked by CloudFormation, schedules, events and the table stream, which retry and surface failures; the stream consumer has its own failure queue',
+    paths: functions,
+  },
+  {
+    id: 'NIST.800.53.R5-LambdaConcurrency',
+    reason: 'No function is invoked by clients, so concurrency is bounded by the schedules, streams and deployments that trigger them',
+    paths: functions,
+  },
+  {
+    id: 'NIST.800.53.R5-LambdaInsideVPC',
+    reason: 'These functions only call AWS APIs and never connect to the database, so they run outside the VPC',
+    paths: [
+      'AWS679f53fac002430cb0da5b7982bd2287',
+      'AWSb4cf1abd4e4f4bc699441af7ccd9ec37',
+      'Database/DatabaseInitProvider',
+      'DatabaseMigrations/DatabaseMigrationsProvider',
+      'GridwalkTableChanges/Consumer',
+      'TileCache/InvalidateTiles',
+    ],
+  },
+
+  // ECS
+  {
+    id: 'AwsSolutions-ECS2',
+    reason: 'Environment variables only hold settings such as host names; passwords and keys are injected from Secrets Manager',
+    paths: taskDefinitions,
+  },
+  {
+    id: 'AwsSolutions-ECS4',
+    reason: 'The services are watched by the CPU, memory and target alarms in Monitoring instead of Container Insights',
+    paths: ['Cluster'],
+  },
+
+  // Network
+  {
+    id: 'AwsSolutions-EC23',
+    reason: 'The load balancer serves the public site and API, so it accepts HTTP and HTTPS from anywhere',
+    paths: ['Network/ApplicationLoadBalancer/SecurityGroup'],
+  },
+  {
+    id: 'NIST.800.53.R5-ELBv2ACMCertificateRequired',
+    reason: 'The HTTP listener only redirects to HTTPS',
+    paths: ['Network/ApplicationLoadBalancer/Listener80'],
+  },
+  {
+    id: 'AwsSolutions-ELB2',
+    reason: 'Requests are logged by the web ACL and by each service',
+    paths: ['Network/ApplicationLoadBalancer'],
+    when: (config) => config.waf !== undefined,
+  },
+  {
+    id: 'NIST.800.53.R5-ELBLoggingEnabled',
+    reason: 'Requests are logged by the web ACL and by each service',
+    paths: ['Network/ApplicationLoadBalancer'],
+    when: (config) => config.waf !== undefined,
+  },
+  {
+    id: 'NIST.800.53.R5-ELBDeletionProtectionEnabled',
+    reason: 'The load balancer holds no state and is recreated from the stack',
+    paths: ['Network/ApplicationLoadBalancer'],
+  },
+  {
+    id: 'AwsSolutions-VPC7',
+    reason: 'Traffic is logged at the load balancer, web ACL and services; flow logs would mostly record NAT traffic',
+    paths: ['Network/Vpc'],
+  },
+  {
+    id: 'NIST.800.53.R5-VPCFlowLogsEnabled',
+    reason: 'Traffic is logged at the load balancer, web ACL and services; flow logs would mostly record NAT traffic',
+    paths: ['Network/Vpc'],
+  },
+  {
+    id: 'NIST.800.53.R5-VPCNoUnrestrictedRouteToIGW',
+    reason: 'Only the load balancer and NAT gateways are in the public subnets',
+    paths: ['Network/Vpc'],
+  },
+  {
+    id: 'NIST.800.53.R5-VPCSubnetAutoAssignPublicIpDisabled',
+    reason: 'Only the load balancer and NAT gateways are in the public subnets',
+    paths: ['Network/Vpc'],
+  },
+
+  // Database
+  {
+    id: 'AwsSolutions-RDS11',
+    reason: 'The database is only reachable from the security groups of the services, so the default port exposes nothing',
+    paths: ['Database/Database'],
+  },
+  {
+    id: 'NIST.800.53.R5-RDSInBackupPlan',
+    reason: 'Automated RDS backups and point in time recovery cover the database for backupRetentionDays',
+    paths: ['Database/Database'],
+  },
+  {
+    id: 'CdkNagValidationFailure',
+    reason: 'Rotation ingress uses the database port token, which the port rules cannot resolve; it only admits the rotation functions',
+    paths: ['Database/DatabaseSecurityGroup'],
+  },
+  {
+    id: 'AwsSolutions-RDS10',
+    reason: 'Deletion protection is disabled by database.deletionProtection in this environment',
+    paths: ['Database/Database'],
+    when: (config) => !config.database.deletionProtection,
+  },
+  {
+    id: 'NIST.800.53.R5-RDSInstanceDeletionProtectionEnabled',
+    reason: 'Deletion protection is disabled by database.deletionProtection in this environment',
+    paths: ['Database/Database'],
+    when: (config) => !config.database.deletionProtection,
+  },
+  {
+    id: 'AwsSolutions-RDS3',
+    reason: 'A single zone is chosen by database.multiAz in this environment',
+    paths: ['Database/Database'],
+    when: (config) => !config.database.multiAz,
+  },
+  {
+    id: 'NIST.800.53.R5-RDSMultiAZSupport',
+    reason: 'A single zone is chosen by database.multiAz in this environment',
+    paths: ['Database/Database'],
+    when: (config) => !config.database.multiAz,
+  },
+  {
+    id: 'NIST.800.53.R5-RDSEnhancedMonitoringEnabled',
+    reason: 'Enhanced monitoring is left off by database.monitoringIntervalSeconds in this environment',
+    paths: ['Database/Database'],
+    when: (config) => config.database.monitoringIntervalSeconds === undefined,
+  },
+
+  // Secrets
+  {
+    id: 'NIST.800.53.R5-SecretsManagerUsingKMSKey',
+    reason: 'Secrets are encrypted with the AWS managed Secrets Manager key; only the task and function roles can read them',
+    paths: [...databaseSecrets, ...externalSecrets, 'Gridwalk/AdminSecret'],
+  },
+  {
+    id: 'AwsSolutions-SMG4',
+    reason: 'Database passwords are not rotated because database.rotationDays is not set in this environment',
+    paths: databaseSecrets,
+    when: (config) => config.database.rotationDays === undefined,
+  },
+  {
+    id: 'NIST.800.53.R5-SecretsManagerRotationEnabled',
+    reason: 'Database passwords are not rotated because database.rotationDays is not set in this environment',
+    paths: databaseSecrets,
+    when: (config) => config.database.rotationDays === undefined,
+  },
+  {
+    id: 'AwsSolutions-SMG4',
+    reason: 'The backend only reads the admin password to create the admin on first start, so rotating the secret would not change the password',
+    paths: ['Gridwalk/AdminSecret'],
+  },
+  {
+    id: 'NIST.800.53.R5-SecretsManagerRotationEnabled',
+    reason: 'The backend only reads the admin password to create the admin on first start, so rotating the secret would not change the password',
+    paths: ['Gridwalk/AdminSecret'],
+  },
+  {
+    id: 'AwsSolutions-SMG4',
+    reason: 'Third party API keys are rotated with their providers, then stored by hand',
+    paths: externalSecrets,
+  },
+  {
+    id: 'NIST.800.53.R5-SecretsManagerRotationEnabled',
+    reason: 'Third party API keys are rotated with their providers, then stored by hand',
+    paths: externalSecrets,
+  },
+
+  // Storage and logs
+  {
+    id: 'AwsSolutions-S1',
+    reason: 'Uploads are audited by the ingestion logs, tiles are public and WAF logs are not read back, so none need access logs',
+    paths: buckets,
+  },
+  {
+    id: 'NIST.800.53.R5-S3BucketLoggingEnabled',
+    reason: 'Uploads are audited by the ingestion logs, tiles are public and WAF logs are not read back, so none need access logs',
+    paths: buckets,
+  },
+  {
+    id: 'NIST.800.53.R5-S3BucketReplicationEnabled',
+    reason: 'Uploads are loaded into the database, tiles are regenerated and WAF logs expire, so none need another copy',
+    paths: buckets,
+  },
+  {
+    id: 'NIST.800.53.R5-S3BucketVersioningEnabled',
+    reason: 'Uploads are loaded into the database, tiles are regenerated and WAF logs are written once, so none need old versions',
+    paths: buckets,
+  },
+  {
+    id: 'NIST.800.53.R5-S3DefaultEncryptionKMS',
+    reason: 'The buckets use S3 managed encryption and block public access; tiles and logs are served through CloudFront or read in the account',
+    paths: buckets,
+  },
+  {
+    id: 'NIST.800.53.R5-CloudWatchLogGroupEncrypted',
+    reason: 'Log groups use CloudWatch Logs encryption with service managed keys',
+    paths: logGroups,
+  },
+
+  // Notifications and alarms
+  {
+    id: 'AwsSolutions-SNS2',
+    reason: 'Alarm notifications only carry alarm names and metric values',
+    paths: ['Monitoring/AlarmTopic'],
+  },
+  {
+    id: 'AwsSolutions-SNS3',
+    reason: 'Only CloudWatch alarms publish to the topic; nothing is granted sns:Publish',
+    paths: ['Monitoring/AlarmTopic'],
+  },
+  {
+    id: 'NIST.800.53.R5-SNSEncryptedKMS',
+    reason: 'Alarm notifications only carry alarm names and metric values',
+    paths: ['Monitoring/AlarmTopic'],
+  },
+  {
+    id: 'AwsSolutions-SQS3',
+    reason: 'This is the dead letter queue of the table stream consumer',
+    paths: ['GridwalkTableChanges/DeadLetterQueue'],
+  },
+  {
+    id: 'NIST.800.53.R5-CloudWatchAlarmAction',
+    reason: 'CodeDeploy watches the deployment alarms and rolls back; the service alarms in Monitoring notify',
+    paths: ['Gridwalk/Backend/Deployment5xxAlarm', 'Gridwalk/Backend/DeploymentUnhealthyAlarm'],
+  },
+
+  // Tile cache
+  {
+    id: 'AwsSolutions-CFR1',
+    reason: 'Map tiles are served worldwide',
+    paths: ['TileCache/Distribution'],
+  },
+  {
+    id: 'AwsSolutions-CFR2',
+    reason: 'Cached tiles are public; requests that reach the origin are filtered by the load balancer web ACL',
+    paths: ['TileCache/Distribution'],
+    when: (config) => config.waf !== undefined,
+  },
+  {
+    id: 'AwsSolutions-CFR3',
+    reason: 'Cache hits are counted in CloudFront metrics and misses are logged at the origin',
+    paths: ['TileCache/Distribution'],
+  },
+];
+
+// Registers the suppressions that apply to the stack's config. Paths of optional
+// features, such as TileCache or Waf, are skipped when the feature is disabled.
+export function applyNagSuppressions(stack: cdk.Stack, config: GridwalkConfig, suppressions: NagSuppression[] = nagSuppressions): void {
+  for (const { paths, when, ...suppression } of suppressions) {
+    if (when && !when(config)) {
+      continue;
+    }
+    if (!paths) {
+      NagSuppressions.addStackSuppressions(stack, [suppression]);
+      continue;
+    }
+    for (const construct of paths.map((path) => findConstruct(stack, path))) {
+      if (construct) {
+        NagSuppressions.addResourceSuppressions(construct, [suppression], true);
+      }
+    }
+  }
+}
+
+export function findConstruct(stack: cdk.Stack, path: string): IConstruct | undefined {
+  return path.split('/').reduce<IConstruct | undefined>((construct, id) => construct?.node.tryFindChild(id), stack);
+}
+
+// Reports unsuppressed warnings, and rules that could not be evaluated, as errors so
+// that they fail synth. Added to the rule packs alongside their default logger.
+export class WarningsAsErrorsLogger implements INagLogger {
+  public onNonCompliance(data: NagLoggerNonComplianceData): void {
+    if (data.ruleLevel === NagMessageLevel.WARN) {
+      cdk.Annotations.of(data.resource).addError(`${data.ruleId}${data.findingId ? `[${data.findingId}]` : ''}: ${data.ruleInfo} (warning treated as error)`);
+    }
+  }
+
+  public onError(data: NagLoggerErrorData): void {
+    cdk.Annotations.of(data.resource).addError(`${data.ruleId} could not be evaluated: ${data.errorMessage}`);
+  }
+
+  public onCompliance(): void {}
+  public onSuppressed(): void {}
+  public onSuppressedError(): void {}
+  public onNotApplicable(): void {}
+}
@@ -0,0 +1,719 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import * as yaml from 'js-yaml';
+import * as logs from 'aws-cdk-lib/aws-logs';
+import * as rds from 'aws-cdk-lib/aws-rds';
+import { Construct } from 'constructs';
+import { DatabaseRestore } from './data';
+import { DatabaseSubnets, NetworkEgress } from './network';
+import { ViewRefreshSchedule } from './view-refresh';
+import { AlarmThresholds } from './monitoring';
+import { WafLogDestination } from './waf';
+import { OpsDatabaseRole } from './ops-task';
+import { BlueGreenDeployment, ScheduledScaling, ServiceScaling, StepScaling } from './web-service';
+
+export interface ServiceConfig {
+  // Release tag or sha256: digest in the service's repository
+  image: string;
+  cpu: number;
+  memoryLimitMiB: number;
+  desiredCount: number;
+  scaling?: ServiceScaling;
+  // Omit for rolling updates that roll back when the circuit breaker trips
+  blueGreen?: BlueGreenDeployment;
+}
+
+// The tile server image is built from lib/tile-server during deploy, so has no tag
+export type TileServiceConfig = Omit<ServiceConfig, 'image'>;
+
+export interface WafConfig {
+  // Count matching requests instead of blocking them, e.g. while trying out the web ACL
+  countOnly: boolean;
+  // Rules to count while the others block, for rolling out one rule at a time
+  countOnlyRules: string[];
+  allowedIps: string[];
+  blockedIps: string[];
+  // Per client IP in 5 minutes, for <subdomain>.<zoneName> of every domain, or the apex when subdomain is omitted
+  rateLimits: { name: string; subdomain?: string; limit: number }[];
+  logDestination: WafLogDestination;
+}
+
+export interface DomainConfig {
+  hostedZoneId: string;
+  zoneName: string;
+  // The domain's listener rules take priorities priorityBlock * 100 to priorityBlock * 100 + 99.
+  // The hostedZone has block 0; a custom domain keeps its block for as long as it is deployed.
+  priorityBlock: number;
+  // Subdomains redirected to another subdomain of the zone, or to the apex when to is omitted, e.g. www.
+  // priority is the rule's place in the domain's block, 40-99, and is kept for as long as the redirect is deployed.
+  redirects: { from: string; to?: string; priority: number }[];
+}
+
+export type DatabaseRemovalPolicy = 'snapshot' | 'retain' | 'destroy';
+
+export type TableStream = 'keysOnly' | 'newImage' | 'oldImage' | 'newAndOldImages';
+
+export interface TableConfig {
+  pointInTimeRecovery: boolean;
+  deletionProtection: boolean;
+  // DynamoDB can't snapshot a table on removal
+  removalPolicy: Exclude<DatabaseRemovalPolicy, 'snapshot'>;
+  // Items are deleted once the epoch seconds in this attribute have passed; omit to disable TTL
+  timeToLiveAttribute?: string;
+  // Changes are passed to the table change consumer; omit for no stream
+  stream?: TableStream;
+}
+
+export interface GridwalkConfig {
+  envName: string;
+  account: string;
+  region: string;
+  // Services are served from the zone apex and its subdomains, e.g. api.<zoneName>
+  hostedZone: DomainConfig;
+  // White-label domains served by the same services
+  customDomains: DomainConfig[];
+  network: {
+    cidr: string;
+    egress: NetworkEgress;
+    natGateways?: number;
+    // Where the database instance lives; 'public' for instances created before the isolated subnets
+    databaseSubnets: DatabaseSubnets;
+    // Required when a service uses blue/green deployments
+    testListener?: {
+      port: number;
+      allowedCidrs: string[];
+    };
+  };
+  externalSecrets: {
+    // Create placeholders for a new environment rather than importing existing secrets
+    createPlaceholders: boolean;
+  };
+  admin: {
+    email: string;
+  };
+  database: {
+    databaseName: string;
+    schemaName: string;
+    allocatedStorage: number;
+    // Omit to disable rotation
+    rotationDays?: number;
+    // Materialized view refresh schedules; views not listed are never refreshed
+    viewRefresh: ViewRefreshSchedule[];
+    multiAz: boolean;
+    // 1-35; also how far back a point in time restore can go
+    backupRetentionDays: number;
+    // UTC, e.g. 04:00-05:00; RDS picks one when omitted
+    backupWindow?: string;
+    deletionProtection: boolean;
+    // What happens to the instance when it is removed from the stack
+    removalPolicy: DatabaseRemovalPolicy;
+    // 7, a multiple of 31 up to 713, or 731; omit to disable Performance Insights
+    performanceInsightsRetentionDays?: number;
+    // Enhanced monitoring granularity, one of 1, 5, 10, 15, 30 or 60; omit to disable
+    monitoringIntervalSeconds?: number;
+    // Storage autoscaling ceiling in GiB; omit to keep allocatedStorage
+    maxAllocatedStorage?: number;
+    // Create the database from a snapshot or point in time rather than empty.
+    // Only read when the instance is first created.
+    restore?: DatabaseRestore;
+  };
+  tables: {
+    gridwalk: TableConfig;
+    landing: TableConfig;
+    // AWS Backup plan for both tables; omit to rely on point in time recovery
+    backup?: {
+      // EventBridge cron() expression, in UTC
+      schedule: string;
+      retentionDays: number;
+    };
+  };
+  // Fargate task started for each upload to the landing bucket
+  ingestion: {
+    cpu: number;
+    memoryLimitMiB: number;
+    // Scratch space for the downloaded file, 21-200
+    ephemeralStorageGiB: number;
+  };
+  // Fargate task started by hand for psql and ogr2ogr sessions
+  ops: {
+    cpu: number;
+    memoryLimitMiB: number;
+    // Stops after this long without a session
+    idleTimeoutMinutes: number;
+    databaseRole: OpsDatabaseRole;
+  };
+  logging: {
+    // Applies to the container, ingestion and exported Postgres logs
+    retentionDays: logs.RetentionDays;
+  };
+  imageRepositories: {
+    keepReleases: number;
+    releaseTagPrefixes: string[];
+    untaggedExpiryDays: number;
+    replicationRegions: string[];
+  };
+  monitoring: {
+    alarmEmails: string[];
+    alarmWebhooks: string[];
+    thresholds: AlarmThresholds;
+  };
+  // cdk-nag rule packs applied at synth
+  compliance: {
+    // Fail synth on unsuppressed warnings as well as errors
+    warningsAsErrors: boolean;
+  };
+  // Omit to leave the load balancer without a web ACL
+  waf?: WafConfig;
+  // Omit to serve tiles straight from the ALB
+  tileCache?: {
+    tileTtlSeconds: number;
+    staticTtlSeconds: number;
+    prerenderedFailover: boolean;
+  };
+  services: {
+    backend: ServiceConfig;
+    ui: ServiceConfig;
+    product: ServiceConfig;
+    tiles: TileServiceConfig;
+  };
+}
+
+/* eslint-disable no-undef */
+const configDir = path.join(__dirname, '..', 'config');
+/* eslint-enable no-undef */
+
+// Valid Fargate memory sizes (MiB) for each CPU size
+const fargateMemory: { [cpu: number]: { min: number; max: number; step: number } } = {
+  256: { min: 512, max: 2048, step: 512 },
+  512: { min: 1024, max: 4096, step: 1024 },
+  1024: { min: 2048, max: 8192, step: 1024 },
+  2048: { min: 4096, max: 16384, step: 1024 },
+  4096: { min: 8192, max: 30720, step: 1024 },
+};
+
+// Subdomains with listener rules of their own in every domain
+const servedSubdomains = ['api', 'app', 'tiles'];
+
+// A listener holds up to 25 certificates besides its default one
+const maxDomains = 26;
+
+// Listener rule priorities go up to 50000; a domain's redirects take 40-99 in its block
+const maxPriorityBlock = 499;
+const redirectPriorities = { min: 40, max: 99 };
+
+// Collects every problem with a raw config so they can be reported together
+class ConfigValidator {
+  public readonly errors: string[] = [];
+
+  constructor(private readonly raw: unknown) {}
+
+  public value(key: string): unknown {
+    return key.split('.').reduce<unknown>(
+      (obj, part) => (obj !== null && typeof obj === 'object' ? (obj as Record<string, unknown>)[part] : undefined),
+      this.raw,
+    );
+  }
+
+  public string(key: string, pattern?: RegExp): string {
+    const value = this.value(key);
+    if (typeof value !== 'string' || value.length === 0) {
+      this.errors.push(`${key} is required and must be a non-empty string`);
+    } else if (pattern && !pattern.test(value)) {
+      this.errors.push(`${key} "${value}" must match ${pattern}`);
+    }
+    return value as string;
+  }
+
+  public number(key: string, min: number): number {
+    const value = this.value(key);
+    if (typeof value !== 'number' || !Number.isInteger(value)) {
+      this.errors.push(`${key} is required and must be an integer`);
+    } else if (value < min) {
+      this.errors.push(`${key} must be at least ${min}, got ${value}`);
+    }
+    return value as number;
+  }
+
+  public boolean(key: string): boolean {
+    const value = this.value(key);
+    if (typeof value !== 'boolean') {
+      this.errors.push(`${key} is required and must be true or false`);
+    }
+    return value as boolean;
+  }
+
+  public optionalNumber(key: string, min: number): number | undefined {
+    return this.value(key) === undefined ? undefined : this.number(key, min);
+  }
+
+  public optionalString(key: string): string | undefined {
+    return this.value(key) === undefined ? undefined : this.string(key);
+  }
+
+  public list(key: string): unknown[] {
+    const value = this.value(key);
+    if (value === undefined) {
+      return [];
+    }
+    if (!Array.isArray(value)) {
+      this.errors.push(`${key} must be a list`);
+      return [];
+    }
+    return value;
+  }
+
+  public oneOf<T extends string>(key: string, values: readonly T[]): T {
+    const value = this.value(key);
+    if (!values.includes(value as T)) {
+      this.errors.push(`${key} must be one of ${values.join(', ')}, got ${JSON.stringify(value)}`);
+    }
+    return value as T;
+  }
+
+  public service(key: string): ServiceConfig {
+    return {
+      image: this.image(`${key}.image`),
+      ...this.fargateService(key),
+    };
+  }
+
+  public image(key: string): string {
+    const value = this.value(key);
+    if (value === undefined) {
+      const contextKey = `${key.split('.')[1]}Image`;
+      this.errors.push(`${key} is required; set it in the config or with -c ${contextKey}=<tag or sha256 digest>`);
+    } else if (value === 'latest') {
+      this.errors.push(`${key} must be a release tag or digest rather than "latest", which can't be moved in an immutable repository`);
+    } else {
+      this.string(key, /^(sha256:[a-f0-9]{64}|[A-Za-z0-9_][A-Za-z0-9_.-]{0,127})$/);
+    }
+    return value as string;
+  }
+
+  public fargateService(key: string): TileServiceConfig {
+    const service = {
+      ...this.taskSize(key),
+      desiredCount: this.number(`${key}.desiredCount`, 0),
+      scaling: this.value(`${key}.scaling`) === undefined ? undefined : this.scaling(`${key}.scaling`),
+      blueGreen: this.value(`${key}.blueGreen`) === undefined ? undefined : {
+        trafficShift: this.oneOf(`${key}.blueGreen.trafficShift`, ['allAtOnce', 'canary', 'linear'] as const),
+        terminationWaitMinutes: this.number(`${key}.blueGreen.terminationWaitMinutes`, 0),
+      },
+    };
+
+    if (service.scaling && (service.desiredCount < service.scaling.minCapacity || service.desiredCount > service.scaling.maxCapacity)) {
+      this.errors.push(`${key}.desiredCount ${service.desiredCount} conflicts with scaling capacity ${service.scaling.minCapacity}-${service.scaling.maxCapacity}`);
+    }
+    return service;
+  }
+
+  public taskSize(key: string): { cpu: number; memoryLimitMiB: number } {
+    const size = {
+      cpu: this.number(`${key}.cpu`, 256),
+      memoryLimitMiB: this.number(`${key}.memoryLimitMiB`, 512),
+    };
+
+    const memory = fargateMemory[size.cpu];
+    if (typeof size.cpu === 'number' && !memory) {
+      this.errors.push(`${key}.cpu ${size.cpu} is not a valid Fargate CPU size (${Object.keys(fargateMemory).join(', ')})`);
+    } else if (memory && typeof size.memoryLimitMiB === 'number' && (
+      size.memoryLimitMiB < memory.min ||
+      size.memoryLimitMiB > memory.max ||
+      size.memoryLimitMiB % memory.step !== 0
+    )) {
+      this.errors.push(`${key}.memoryLimitMiB ${size.memoryLimitMiB} conflicts with cpu ${size.cpu}; expected ${memory.min}-${memory.max} in steps of ${memory.step}`);
+    }
+    return size;
+  }
+
+  public scaling(key: string): ServiceScaling {
+    const percent = (name: string) => {
+      const value = this.optionalNumber(`${key}.${name}`, 1);
+      if (value !== undefined && value > 100) {
+        this.errors.push(`${key}.${name} must be a percentage, got ${value}`);
+      }
+      return value;
+    };
+
+    const scaling: ServiceScaling = {
+      minCapacity: this.number(`${key}.minCapacity`, 0),
+      maxCapacity: this.number(`${key}.maxCapacity`, 1),
+      cpuTarget: percent('cpuTarget'),
+      memoryTarget: percent('memoryTarget'),
+      requestsPerTarget: this.optionalNumber(`${key}.requestsPerTarget`, 1),
+      schedules: this.list(`${key}.schedules`).map((_, i) => this.schedule(`${key}.schedules.${i}`)),
+      stepScaling: this.value(`${key}.stepScaling`) === undefined ? undefined : this.stepScaling(`${key}.stepScaling`),
+    };
+
+    if (scaling.minCapacity > scaling.maxCapacity) {
+      this.errors.push(`${key}.minCapacity ${scaling.minCapacity} is greater than maxCapacity ${scaling.maxCapacity}`);
+    }
+    return scaling;
+  }
+
+  public schedule(key: string): ScheduledScaling {
+    const schedule: ScheduledScaling = {
+      name: this.string(`${key}.name`, /^[A-Za-z][A-Za-z0-9]*$/),
+      schedule: this.string(`${key}.schedule`, /^(cron|rate|at)\(.+\)$/),
+      timeZone: this.optionalString(`${key}.timeZone`),
+      minCapacity: this.optionalNumber(`${key}.minCapacity`, 0),
+      maxCapacity: this.optionalNumber(`${key}.maxCapacity`, 0),
+    };
+    if (schedule.minCapacity === undefined && schedule.maxCapacity === undefined) {
+      this.errors.push(`${key} must set minCapacity, maxCapacity or both`);
+    }
+    return schedule;
+  }
+
+  public viewRefresh(key: string): ViewRefreshSchedule[] {
+    const schedules = this.list(key).map((_, i) => ({
+      name: this.string(`${key}.${i}.name`, /^[A-Za-z][A-Za-z0-9]*$/),
+      schedule: this.string(`${key}.${i}.schedule`, /^(cron|rate)\(.+\)$/),
+      views: this.list(`${key}.${i}.views`).map((_, j) => this.string(`${key}.${i}.views.${j}`, /^[a-z_][a-z0-9_]*$/)),
+    }));
+
+    // A view on two schedules could be refreshed by two runs at once
+    const seen = new Set<string>();
+    for (const [i, schedule] of schedules.entries()) {
+      if (schedule.views.length === 0) {
+        this.errors.push(`${key}.${i}.views must list at least one view`);
+      }
+      for (const view of schedule.views) {
+        if (seen.has(view)) {
+          this.errors.push(`${key}.${i}.views lists ${view}, which is already on another schedule`);
+        }
+        seen.add(view);
+      }
+    }
+    if (new Set(schedules.map((schedule) => schedule.name)).size !== schedules.length) {
+      this.errors.push(`${key} names must be unique`);
+    }
+    return schedules;
+  }
+
+  public waf(key: string): WafConfig {
+    const cidr = (name: string) => this.list(`${key}.${name}`).map((_, i) =>
+      this.string(`${key}.${name}.${i}`, /^(\d{1,3}(\.\d{1,3}){3}\/\d{1,2}|[0-9a-fA-F:]+\/\d{1,3})$/));
+
+    const waf: WafConfig = {
+      countOnly: this.boolean(`${key}.countOnly`),
+      countOnlyRules: this.list(`${key}.countOnlyRules`).map((_, i) => this.string(`${key}.countOnlyRules.${i}`)),
+      allowedIps: cidr('allowedIps'),
+      blockedIps: cidr('blockedIps'),
+      rateLimits: this.list(`${key}.rateLimits`).map((_, i) => ({
+        name: this.string(`${key}.rateLimits.${i}.name`, /^[A-Za-z][A-Za-z0-9]*$/),
+        subdomain: this.optionalString(`${key}.rateLimits.${i}.subdomain`),
+        limit: this.number(`${key}.rateLimits.${i}.limit`, 100),
+      })),
+      logDestination: this.oneOf(`${key}.logDestination`, ['s3', 'cloudwatch'] as const),
+    };
+
+    if (new Set(waf.rateLimits.map((rateLimit) => rateLimit.name)).size !== waf.rateLimits.length) {
+      this.errors.push(`${key}.rateLimits names must be unique`);
+    }
+    const both = waf.allowedIps.filter((ip) => waf.blockedIps.includes(ip));
+    if (both.length > 0) {
+      this.errors.push(`${key} lists ${both.join(', ')} as both allowed and blocked`);
+    }
+    return waf;
+  }
+
+  // The primary domain always has priority block 0, custom domains name theirs
+  public domain(key: string, primary: boolean): DomainConfig {
+    const label = /^[a-z0-9]([a-z0-9-]*[a-z0-9])?$/;
+    if (primary && this.value(`${key}.priorityBlock`) !== undefined) {
+      this.errors.push(`${key}.priorityBlock can't be set, as the primary domain always has block 0`);
+    }
+    const domain: DomainConfig = {
+      hostedZoneId: this.string(`${key}.hostedZoneId`, /^Z[A-Z0-9]+$/),
+      zoneName: this.string(`${key}.zoneName`, /^([a-z0-9]([a-z0-9-]*[a-z0-9])?\.)+[a-z]{2,}$/),
+      priorityBlock: primary ? 0 : this.number(`${key}.priorityBlock`, 1),
+      redirects: this.list(`${key}.redirects`).map((_, i) => ({
+        from: this.string(`${key}.redirects.${i}.from`, label),
+        to: this.value(`${key}.redirects.${i}.to`) === undefined ? undefined : this.string(`${key}.redirects.${i}.to`, label),
+        priority: this.number(`${key}.redirects.${i}.priority`, redirectPriorities.min),
+      })),
+    };
+
+    for (const [i, redirect] of domain.redirects.entries()) {
+      if (servedSubdomains.includes(redirect.from)) {
+        this.errors.push(`${key}.redirects.${i}.from ${redirect.from} is served by Gridwalk and can't be redirected`);
+      }
+      if (redirect.from === redirect.to) {
+        this.errors.push(`${key}.redirects.${i} redirects ${redirect.from} to itself`);
+      }
+      if (redirect.priority > redirectPriorities.max) {
+        this.errors.push(`${key}.redirects.${i}.priority must be at most ${redirectPriorities.max}, got ${redirect.priority}`);
+      }
+    }
+    if (new Set(domain.redirects.map((redirect) => redirect.from)).size !== domain.redirects.length) {
+      this.errors.push(`${key}.redirects must redirect each subdomain once`);
+    }
+    if (domain.priorityBlock > maxPriorityBlock) {
+      this.errors.push(`${key}.priorityBlock must be at most ${maxPriorityBlock}, got ${domain.priorityBlock}`);
+    }
+    if (new Set(domain.redirects.map((redirect) => redirect.priority)).size !== domain.redirects.length) {
+      this.errors.push(`${key}.redirects priority must be unique`);
+    }
+    return domain;
+  }
+
+  public table(key: string): TableConfig {
+    return {
+      pointInTimeRecovery: this.boolean(`${key}.pointInTimeRecovery`),
+      deletionProtection: this.boolean(`${key}.deletionProtection`),
+      removalPolicy: this.oneOf(`${key}.removalPolicy`, ['retain', 'destroy'] as const),
+      timeToLiveAttribute: this.value(`${key}.timeToLiveAttribute`) === undefined ? undefined :
+        this.string(`${key}.timeToLiveAttribute`, /^[A-Za-z_][A-Za-z0-9_.-]*$/),
+      stream: this.value(`${key}.stream`) === undefined ? undefined :
+        this.oneOf(`${key}.stream`, ['keysOnly', 'newImage', 'oldImage', 'newAndOldImages'] as const),
+    };
+  }
+
+  public stepScaling(key: string): StepScaling {
+    const steps = this.list(`${key}.steps`).map((_, i) => ({
+      lower: this.optionalNumber(`${key}.steps.${i}.lower`, Number.MIN_SAFE_INTEGER),
+      upper: this.optionalNumber(`${key}.steps.${i}.upper`, Number.MIN_SAFE_INTEGER),
+      change: this.number(`${key}.steps.${i}.change`, Number.MIN_SAFE_INTEGER),
+    }));
+    if (steps.length < 2) {
+      this.errors.push(`${key}.steps must define at least two steps`);
+    }
+
+    return {
+      namespace: this.string(`${key}.namespace`),
+      metricName: this.string(`${key}.metricName`),
+      dimensions: this.value(`${key}.dimensions`) as StepScaling['dimensions'],
+      statistic: this.optionalString(`${key}.statistic`),
+      periodSeconds: this.optionalNumber(`${key}.periodSeconds`, 10),
+      steps: steps,
+    };
+  }
+}
+
+export function validateConfig(raw: unknown, source: string): GridwalkConfig {
+  const v = new ConfigValidator(raw);
+
+  const config: GridwalkConfig = {
+    envName: v.string('envName', /^[a-z][a-z0-9-]*$/),
+    account: v.string('account', /^\d{12}$/),
+    region: v.string('region', /^[a-z]{2}(-[a-z]+)+-\d$/),
+    hostedZone: v.domain('hostedZone', true),
+    customDomains: v.list('customDomains').map((_, i) => v.domain(`customDomains.${i}`, false)),
+    network: {
+      cidr: v.string('network.cidr', /^\d{1,3}(\.\d{1,3}){3}\/\d{1,2}$/),
+      egress: v.oneOf('network.egress', ['nat', 'endpoints'] as const),
+      natGateways: v.optionalNumber('network.natGateways', 1),
+      databaseSubnets: v.oneOf('network.databaseSubnets', ['public', 'isolated'] as const),
+      testListener: v.value('network.testListener') === undefined ? undefined : {
+        port: v.number('network.testListener.port', 1),
+        allowedCidrs: v.list('network.testListener.allowedCidrs').map((_, i) =>
+          v.string(`network.testListener.allowedCidrs.${i}`, /^\d{1,3}(\.\d{1,3}){3}\/\d{1,2}$/)),
+      },
+    },
+    externalSecrets: {
+      createPlaceholders: v.boolean('externalSecrets.createPlaceholders'),
+    },
+    admin: {
+      email: v.string('admin.email', /^[^@\s]+@[^@\s]+\.[^@\s]+$/),
+    },
+    database: {
+      databaseName: v.string('database.databaseName', /^[a-z_][a-z0-9_]*$/),
+      schemaName: v.string('database.schemaName', /^[a-z_][a-z0-9_]*$/),
+      allocatedStorage: v.number('database.allocatedStorage', 20),
+      rotationDays: v.optionalNumber('database.rotationDays', 1),
+      viewRefresh: v.viewRefresh('database.viewRefresh'),
+      multiAz: v.boolean('database.multiAz'),
+      backupRetentionDays: v.number('database.backupRetentionDays', 1),
+      backupWindow: v.value('database.backupWindow') === undefined ? undefined :
+        v.string('database.backupWindow', /^([01]\d|2[0-3]):[0-5]\d-([01]\d|2[0-3]):[0-5]\d$/),
+      deletionProtection: v.boolean('database.deletionProtection'),
+      removalPolicy: v.oneOf('database.removalPolicy', ['snapshot', 'retain', 'destroy'] as const),
+      performanceInsightsRetentionDays: v.optionalNumber('database.performanceInsightsRetentionDays', 7),
+      monitoringIntervalSeconds: v.optionalNumber('database.monitoringIntervalSeconds', 1),
+      maxAllocatedStorage: v.optionalNumber('database.maxAllocatedStorage', 21),
+      restore: v.value('database.restore') === undefined ? undefined : {
+        snapshotIdentifier: v.optionalString('database.restore.snapshotIdentifier'),
+        sourceInstanceIdentifier: v.optionalString('database.restore.sourceInstanceIdentifier'),
+        restoreTime: v.value('database.restore.restoreTime') === undefined ? undefined :
+          v.string('database.restore.restoreTime', /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}(\.\d+)?Z$/),
+      },
+    },
+    tables: {
+      gridwalk: v.table('tables.gridwalk'),
+      landing: v.table('tables.landing'),
+      backup: v.value('tables.backup') === undefined ? undefined : {
+        schedule: v.string('tables.backup.schedule', /^cron\(.+\)$/),
+        retentionDays: v.number('tables.backup.retentionDays', 1),
+      },
+    },
+    ingestion: {
+      ...v.taskSize('ingestion'),
+      ephemeralStorageGiB: v.number('ingestion.ephemeralStorageGiB', 21),
+    },
+    ops: {
+      ...v.taskSize('ops'),
+      idleTimeoutMinutes: v.number('ops.idleTimeoutMinutes', 1),
+      databaseRole: v.oneOf('ops.databaseRole', ['gis_admin', 'read', 'master'] as const),
+    },
+    logging: {
+      retentionDays: v.number('logging.retentionDays', 1),
+    },
+    imageRepositories: {
+      keepReleases: v.number('imageRepositories.keepReleases', 1),
+      releaseTagPrefixes: v.list('imageRepositories.releaseTagPrefixes').map((_, i) => v.string(`imageRepositories.releaseTagPrefixes.${i}`)),
+      untaggedExpiryDays: v.number('imageRepositories.untaggedExpiryDays', 1),
+      replicationRegions: v.list('imageRepositories.replicationRegions').map((_, i) =>
+        v.string(`imageRepositories.replicationRegions.${i}`, /^[a-z]{2}(-[a-z]+)+-\d$/)),
+    },
+    monitoring: {
+      alarmEmails: v.list('monitoring.alarmEmails').map((_, i) => v.string(`monitoring.alarmEmails.${i}`, /^[^@\s]+@[^@\s]+\.[^@\s]+$/)),
+      alarmWebhooks: v.list('monitoring.alarmWebhooks').map((_, i) => v.string(`monitoring.alarmWebhooks.${i}`, /^https:\/\/\S+$/)),
+      thresholds: {
+        target5xxCount: v.number('monitoring.thresholds.target5xxCount', 1),
+        targetResponseTimeSeconds: v.number('monitoring.thresholds.targetResponseTimeSeconds', 1),
+        serviceCpuPercent: v.number('monitoring.thresholds.serviceCpuPercent', 1),
+        serviceMemoryPercent: v.number('monitoring.thresholds.serviceMemoryPercent', 1),
+        databaseCpuPercent: v.number('monitoring.thresholds.databaseCpuPercent', 1),
+        databaseConnections: v.number('monitoring.thresholds.databaseConnections', 1),
+        databaseFreeStorageGiB: v.number('monitoring.thresholds.databaseFreeStorageGiB', 1),
+        dynamodbThrottles: v.number('monitoring.thresholds.dynamodbThrottles', 1),
+      },
+    },
+    compliance: {
+      warningsAsErrors: v.boolean('compliance.warningsAsErrors'),
+    },
+    waf: v.value('waf') === undefined ? undefined : v.waf('waf'),
+    tileCache: v.value('tileCache') === undefined ? undefined : {
+      tileTtlSeconds: v.number('tileCache.tileTtlSeconds', 0),
+      staticTtlSeconds: v.number('tileCache.staticTtlSeconds', 0),
+      prerenderedFailover: v.boolean('tileCache.prerenderedFailover'),
+    },
+    services: {
+      backend: v.service('services.backend'),
+      ui: v.service('services.ui'),
+      product: v.service('services.product'),
+      tiles: v.fargateService('services.tiles'),
+    },
+  };
+
+  if (config.imageRepositories.releaseTagPrefixes.length === 0) {
+    v.errors.push('imageRepositories.releaseTagPrefixes must list at least one prefix');
+  }
+  if (config.imageRepositories.replicationRegions.includes(config.region)) {
+    v.errors.push(`imageRepositories.replicationRegions can't include the stack's own region ${config.region}`);
+  }
+
+  const database = config.database;
+  if (database.backupRetentionDays > 35) {
+    v.errors.push(`database.backupRetentionDays must be at most 35, got ${database.backupRetentionDays}`);
+  }
+  const insightsRetention = Object.values(rds.PerformanceInsightRetention).filter(
+    (days): days is rds.PerformanceInsightRetention => typeof days === 'number');
+  if (database.performanceInsightsRetentionDays !== undefined && !insightsRetention.includes(database.performanceInsightsRetentionDays)) {
+    v.errors.push(`database.performanceInsightsRetentionDays ${database.performanceInsightsRetentionDays} is not a Performance Insights retention period (${insightsRetention.join(', ')})`);
+  }
+  if (database.monitoringIntervalSeconds !== undefined && ![1, 5, 10, 15, 30, 60].includes(database.monitoringIntervalSeconds)) {
+    v.errors.push(`database.monitoringIntervalSeconds must be one of 1, 5, 10, 15, 30, 60, got ${database.monitoringIntervalSeconds}`);
+  }
+  if (database.maxAllocatedStorage !== undefined && database.maxAllocatedStorage <= database.allocatedStorage) {
+    v.errors.push(`database.maxAllocatedStorage ${database.maxAllocatedStorage} must be greater than allocatedStorage ${database.allocatedStorage}`);
+  }
+  if (database.restore && (database.restore.snapshotIdentifier === undefined) === (database.restore.sourceInstanceIdentifier === undefined)) {
+    v.errors.push('database.restore needs exactly one of snapshotIdentifier or sourceInstanceIdentifier');
+  }
+  if (database.restore?.restoreTime && !database.restore.sourceInstanceIdentifier) {
+    v.errors.push('database.restore.restoreTime only applies with sourceInstanceIdentifier');
+  }
+
+  const zoneNames = [config.hostedZone, ...config.customDomains].map((domain) => domain.zoneName);
+  if (new Set(zoneNames).size !== zoneNames.length) {
+    v.errors.push('customDomains must not repeat a zone or the hostedZone');
+  }
+  const blocks = config.customDomains.map((domain) => domain.priorityBlock);
+  if (new Set(blocks).size !== blocks.length) {
+    v.errors.push('customDomains priorityBlock must be unique');
+  }
+  if (zoneNames.length > maxDomains) {
+    v.errors.push(`hostedZone and customDomains can list at most ${maxDomains} zones, one per listener certificate, got ${zoneNames.length}`);
+  }
+
+  if (config.ingestion.ephemeralStorageGiB > 200) {
+    v.errors.push(`ingestion.ephemeralStorageGiB must be at most 200, got ${config.ingestion.ephemeralStorageGiB}`);
+  }
+
+  // CloudWatch only accepts a fixed set of retention periods
+  const retentionDays = Object.values(logs.RetentionDays).filter(
+    (days): days is logs.RetentionDays => typeof days === 'number' && days !== logs.RetentionDays.INFINITE);
+  if (typeof config.logging.retentionDays === 'number' && !retentionDays.includes(config.logging.retentionDays)) {
+    v.errors.push(`logging.retentionDays ${config.logging.retentionDays} is not a CloudWatch retention period (${retentionDays.join(', ')})`);
+  }
+
+  if (config.network.egress === 'endpoints' && config.network.natGateways !== undefined) {
+    v.errors.push('network.natGateways conflicts with network.egress "endpoints"; remove it or use "nat"');
+  }
+
+  if (config.network.testListener && [80, 443].includes(config.network.testListener.port)) {
+    v.errors.push(`network.testListener.port ${config.network.testListener.port} is already used by the load balancer`);
+  }
+  for (const [name, service] of Object.entries(config.services)) {
+    if (service.blueGreen && !config.network.testListener) {
+      v.errors.push(`services.${name}.blueGreen needs network.testListener`);
+    }
+    // CodeDeploy waits at most two days before terminating the old tasks
+    if (service.blueGreen && service.blueGreen.terminationWaitMinutes > 2880) {
+      v.errors.push(`services.${name}.blueGreen.terminationWaitMinutes must be at most 2880, got ${service.blueGreen.terminationWaitMinutes}`);
+    }
+  }
+
+  // Catch misspelt service names, which would otherwise be silently ignored
+  const services = v.value('services');
+  for (const name of Object.keys(typeof services === 'object' && services !== null ? services : {})) {
+    if (!(name in config.services)) {
+      v.errors.push(`services.${name} is not a known service (${Object.keys(config.services).join(', ')})`);
+    }
+  }
+
+  if (v.errors.length > 0) {
+    throw new Error(`Invalid configuration in ${source}:\n  - ${v.errors.join('\n  - ')}`);
+  }
+  return config;
+}
+
+// Services whose image comes from one of the ImageRepositories
+const imageServices = ['backend', 'ui', 'product'];
+
+// Load the environment selected with `-c env=<name>` (config/<name>.yaml), or an
+// arbitrary file with `-c configFile=<path>` for ephemeral preview environments.
+// Images can be pinned for a single deploy with `-c <service>Image=<tag or digest>`.
+export function loadConfig(scope: Construct): GridwalkConfig {
+  const configFile: string | undefined = scope.node.tryGetContext('configFile');
+  const envName: string = scope.node.tryGetContext('env') ?? 'prod';
+  const file = configFile ?? path.join(configDir, `${envName}.yaml`);
+
+  if (!fs.existsSync(file)) {
+    throw new Error(`No configuration found for environment "${envName}" at ${file}`);
+  }
+
+  const raw = yaml.load(fs.readFileSync(file, 'utf8'));
+  const services = (raw as { services?: { [name: string]: { image?: string } } } | undefined)?.services;
+  for (const name of imageServices) {
+    const image: string | undefined = scope.node.tryGetContext(`${name}Image`);
+    if (image !== undefined && services?.[name]) {
+      services[name].image = image;
+    }
+  }
+
+  // An environment's hosted zone id can be passed at deploy time rather than committed
+  const hostedZoneId: string | undefined = scope.node.tryGetContext('hostedZoneId');
+  const hostedZone = (raw as { hostedZone?: { hostedZoneId?: string } } | undefined)?.hostedZone;
+  if (hostedZoneId !== undefined && hostedZone) {
+    hostedZone.hostedZoneId = hostedZoneId;
+  }
+
+  const config = validateConfig(raw, file);
+  if (!configFile && config.envName !== envName) {
+    throw new Error(`envName "${config.envName}" in ${file} does not match the selected environment "${envName}"`);
+  }
+  return config;
+}
@@ -3,25 +3,64 @@ import * as cdk from 'aws-cdk-lib';
 import * as ec2 from 'aws-cdk-lib/aws-ec2';
 import * as lambda from 'aws-cdk-lib/aws-lambda';
 import * as nodejs from 'aws-cdk-lib/aws-lambda-nodejs';
+import * as logs from 'aws-cdk-lib/aws-logs';
 import * as rds from 'aws-cdk-lib/aws-rds';
 import * as secretsmanager from 'aws-cdk-lib/aws-secretsmanager';
+import * as cr from 'aws-cdk-lib/custom-resources';
 import { Construct } from 'constructs';
 
+// Start a new environment from another environment's data rather than an empty
+// database. The source must use the same database name and master username.
+export interface DatabaseRestore {
+  // Manual or automated snapshot name, or its ARN when shared from another account
+  snapshotIdentifier?: string;
+  // Point in time restore from the automated backups of this instance
+  sourceInstanceIdentifier?: string;
+  // ISO 8601 time to restore to, e.g. 2024-05-01T09:30:00Z; the latest restorable time when omitted
+  restoreTime?: string;
+}
+
 export interface DatabaseProps {
   network: {
     vpc: ec2.IVpc;
     subnetGroup: rds.SubnetGroup;
+    // Subnets for the init function, which need a route to Secrets Manager
+    computeSubnets: ec2.SubnetSelection;
   };
   databaseName: string;
   schemaName: string;
   allocatedStorage: number;
+  // Rotate the master and role passwords on this schedule
+  rotation?: cdk.Duration;
+  // Retention of the Postgres log exported to CloudWatch
+  logRetention: logs.RetentionDays;
+
+  multiAz?: boolean;
+  // Automated backups, which also bound how far back a point in time restore can go
+  backupRetention?: cdk.Duration;
+  // UTC hh24:mi-hh24:mi, at least 30 minutes long
+  preferredBackupWindow?: string;
+  deletionProtection?: boolean;
+  // What happens to the instance when it is removed from the stack
+  removalPolicy?: cdk.RemovalPolicy;
+  // Omit to disable Performance Insights
+  performanceInsightRetention?: rds.PerformanceInsightRetention;
+  // Enhanced monitoring granularity; omit to disable
+  monitoringInterval?: cdk.Duration;
+  // Storage grows automatically up to this many GiB
+  maxAllocatedStorage?: number;
+  restore?: DatabaseRestore;
 }
 
 export class Database extends Construct {
-  public readonly instance: rds.DatabaseInstance
+  public readonly instance: rds.DatabaseInstance | rds.DatabaseInstanceFromSnapshot;
+  public readonly postgresLogGroup: logs.ILogGroup;
   public readonly databaseSecurityGroup: ec2.SecurityGroup;
   public readonly appSecret: secretsmanager.ISecret;
   public readonly readSecret: secretsmanager.ISecret;
+  public readonly gisadminSecret: secretsmanager.ISecret;
+  public readonly initFunction: nodejs.NodejsFunction;
+  public readonly initResource: cdk.CustomResource;
 
   constructor(scope: Construct, id: string, props: DatabaseProps) {
     super(scope, id);
@@ -50,20 +89,68 @@ export class Database extends Construct {
       },
     });
 
-    this.instance = new rds.DatabaseInstance(this, 'Database', {
+    const instanceProps = {
       engine: rds.DatabaseInstanceEngine.POSTGRES,
-      databaseName: props.databaseName,
       instanceType: ec2.InstanceType.of(ec2.InstanceClass.M6G, ec2.InstanceSize.LARGE),
       allocatedStorage: props.allocatedStorage,
-      credentials: rds.Credentials.fromGeneratedSecret('postgres'),
+      maxAllocatedStorage: props.maxAllocatedStorage,
       vpc: props.network.vpc,
       securityGroups: [this.databaseSecurityGroup],
       subnetGroup: props.network.subnetGroup,
-      storageEncrypted: true,
+      publiclyAccessible: false,
       caCertificate: rds.CaCertificate.RDS_CA_RDS2048_G1,
       parameterGroup: parameterGroup,
-    });
+      multiAz: props.multiAz,
+      backupRetention: props.backupRetention,
+      preferredBackupWindow: props.preferredBackupWindow,
+      deletionProtection: props.deletionProtection,
+      removalPolicy: props.removalPolicy,
+      enablePerformanceInsights: props.performanceInsightRetention !== undefined,
+      performanceInsightRetention: props.performanceInsightRetention,
+      monitoringInterval: props.monitoringInterval,
+      // Slow statements, DDL and connections logged by the parameter group, and
+      // the output of major version upgrades
+      cloudwatchLogsExports: ['postgresql', 'upgrade'],
+      cloudwatchLogsRetention: props.logRetention,
+    };
 
+    const restore = props.restore;
+    if (restore && (restore.snapshotIdentifier === undefined) === (restore.sourceInstanceIdentifier === undefined)) {
+      throw new Error('restore needs exactly one of snapshotIdentifier or sourceInstanceIdentifier');
+    }
+    if (restore?.restoreTime && !restore.sourceInstanceIdentifier) {
+      throw new Error('restore.restoreTime only applies with sourceInstanceIdentifier');
+    }
+
+    if (restore?.snapshotIdentifier) {
+      // The database name and encryption come from the snapshot; the master password is replaced
+      this.instance = new rds.DatabaseInstanceFromSnapshot(this, 'Database', {
+        ...instanceProps,
+        snapshotIdentifier: restore.snapshotIdentifier,
+        credentials: rds.SnapshotCredentials.fromGeneratedSecret('postgres'),
+      });
+    } else {
+      this.instance = new rds.DatabaseInstance(this, 'Database', {
+        ...instanceProps,
+        databaseName: props.databaseName,
+        credentials: rds.Credentials.fromGeneratedSecret('postgres'),
+        storageEncrypted: true,
+      });
+    }
+
+    if (restore?.sourceInstanceIdentifier) {
+      // The L2 construct has no point in time restore, so the source replaces the
+      // database name and master user it would otherwise create
+      const cfnInstance = this.instance.node.defaultChild as rds.CfnDBInstance;
+      cfnInstance.sourceDbInstanceIdentifier = restore.sourceInstanceIdentifier;
+      cfnInstance.restoreTime = restore.restoreTime;
+      cfnInstance.useLatestRestorableTime = restore.restoreTime === undefined ? true : undefined;
+      cfnInstance.dbName = undefined;
+      cfnInstance.masterUsername = undefined;
+    }
+    this.postgresLogGroup = this.instance.cloudwatchLogGroups['postgresql'];
+
+    // engine, dbname and masterarn are read by the multi-user rotation function
     this.readSecret = new secretsmanager.Secret(this, "Read", {
       generateSecretString: {
         secretStringTemplate: JSON.stringify({
@@ -71,6 +158,9 @@ export class Database extends Construct {
           database: props.databaseName,
           host: this.instance.dbInstanceEndpointAddress,
           port: this.instance.dbInstanceEndpointPort,
+          engine: "postgres",
+          dbname: props.databaseName,
+          masterarn: this.instance.secret!.secretArn,
         }),
         generateStringKey: 'password',
         passwordLength: 30,
@@ -80,13 +170,16 @@ export class Database extends Construct {
     });
 
 
-    const gisadminSecret = new secretsmanager.Secret(this, "Gisadmin", {
+    this.gisadminSecret = new secretsmanager.Secret(this, "Gisadmin", {
       generateSecretString: {
         secretStringTemplate: JSON.stringify({
           username: "gis_admin",
           database: props.databaseName,
           host: this.instance.dbInstanceEndpointAddress,
           port: this.instance.dbInstanceEndpointPort,
+          engine: "postgres",
+          dbname: props.databaseName,
+          masterarn: this.instance.secret!.secretArn,
         }),
         generateStringKey: 'password',
         passwordLength: 30,
@@ -102,6 +195,9 @@ export class Database extends Construct {
           database: props.databaseName,
           host: this.instance.dbInstanceEndpointAddress,
           port: this.instance.dbInstanceEndpointPort,
+          engine: "postgres",
+          dbname: props.databaseName,
+          masterarn: this.instance.secret!.secretArn,
         }),
         generateStringKey: 'password',
         passwordLength: 30,
@@ -118,10 +214,10 @@ export class Database extends Construct {
     });
 
     // Function to initialize database
-    const databaseInit = new nodejs.NodejsFunction(this, 'DatabaseInit', {
+    this.initFunction = new nodejs.NodejsFunction(this, 'DatabaseInit', {
       runtime: lambda.Runtime.NODEJS_20_X,
       architecture: lambda.Architecture.ARM_64,
-      timeout: cdk.Duration.seconds(10),
+      timeout: cdk.Duration.minutes(2),
       /* eslint-disable no-undef */
       projectRoot: path.join(__dirname, 'init-db'),
       depsLockFilePath: path.join(__dirname, 'init-db', 'package-lock.json'),
@@ -139,30 +235,72 @@ export class Database extends Construct {
           beforeInstall: (inputDir: string, outputDir: string): string[] => [],
         },
       },
-      environment: {
-        DB_NAME: props.databaseName,
-        SCHEMA_NAME: props.schemaName,
-        MASTER_SECRET_NAME: this.instance.secret!.secretName,
-        DB_READ_SECRET_NAME: this.readSecret.secretName,
-        DB_GISADMIN_SECRET_NAME: gisadminSecret.secretName,
-        DB_APP_SECRET_NAME: this.appSecret.secretName
-      },
       vpc: props.network.vpc,
-      vpcSubnets: { subnetType: ec2.SubnetType.PUBLIC },
-      allowPublicSubnet: true,
+      vpcSubnets: props.network.computeSubnets,
       securityGroups: [databaseInitSecurityGroup]
     });
 
     // Grant access to secrets from function
-    this.instance.secret!.grantRead(databaseInit);
-    this.readSecret.grantRead(databaseInit);
-    gisadminSecret.grantRead(databaseInit);
-    this.appSecret.grantRead(databaseInit);
+    this.instance.secret!.grantRead(this.initFunction);
+    this.readSecret.grantRead(this.initFunction);
+    this.gisadminSecret.grantRead(this.initFunction);
+    this.appSecret.grantRead(this.initFunction);
 
     this.databaseSecurityGroup.addIngressRule(
       databaseInitSecurityGroup,
       ec2.Port.tcp(5432),
       "Allow inbound to database from init function"
     );
+
+    // Run the init function on every deploy that changes the schema or role secrets
+    const databaseInitProvider = new cr.Provider(this, 'DatabaseInitProvider', {
+      onEventHandler: this.initFunction,
+    });
+
+    this.initResource = new cdk.CustomResource(this, 'DatabaseInitResource', {
+      serviceToken: databaseInitProvider.serviceToken,
+      properties: {
+        DatabaseName: props.databaseName,
+        SchemaName: props.schemaName,
+        MasterSecretArn: this.instance.secret!.secretArn,
+        ReadSecretArn: this.readSecret.secretArn,
+        GisadminSecretArn: this.gisadminSecret.secretArn,
+        AppSecretArn: this.appSecret.secretArn,
+        // A changed template regenerates the secret's password, so the init runs again to set it
+        RoleSecretTemplates: cdk.Stack.of(this).toJsonString(
+          [this.readSecret, this.gisadminSecret, this.appSecret].map((secret) =>
+            (secret.node.defaultChild as secretsmanager.CfnSecret).generateSecretString)),
+      },
+    });
+    this.initResource.node.addDependency(this.instance.node.defaultChild!, this.databaseSecurityGroup);
+
+    if (props.rotation) {
+      // Rotation functions run alongside the init function and reach Secrets Manager the same way
+      this.instance.addRotationSingleUser({
+        automaticallyAfter: props.rotation,
+        vpcSubnets: props.network.computeSubnets,
+      });
+
+      // Multi-user rotation alternates between <role> and <role>_clone so that
+      // running tasks keep working with the previous credentials
+      const roleSecrets: { [id: string]: secretsmanager.ISecret } = {
+        ReadRotation: this.readSecret,
+        GisadminRotation: this.gisadminSecret,
+        AppRotation: this.appSecret,
+      };
+      for (const [rotationId, secret] of Object.entries(roleSecrets)) {
+        this.instance.addRotationMultiUser(rotationId, {
+          secret: secret,
+          automaticallyAfter: props.rotation,
+          vpcSubnets: props.network.computeSubnets,
+        });
+      }
+
+      // Schedules rotate immediately when created, which must not happen before
+      // the init function has created the roles or while it is using the master user
+      for (const secret of [this.instance.secret!, ...Object.values(roleSecrets)]) {
+        secret.node.findChild('RotationSchedule').node.addDependency(this.initResource);
+      }
+    }
   }
 }
@@ -0,0 +1,83 @@
+import * as cdk from 'aws-cdk-lib';
+import * as ecs from 'aws-cdk-lib/aws-ecs';
+import * as secretsmanager from 'aws-cdk-lib/aws-secretsmanager';
+import { Construct } from 'constructs';
+
+export interface ExternalSecretDefinition {
+  // Name of the secret in Secrets Manager
+  secretName: string;
+  description: string;
+  // JSON keys the secret is expected to contain
+  keys: string[];
+  // Services allowed to read the secret
+  consumers: string[];
+}
+
+// Secrets whose values are managed outside of this stack
+export const externalSecretDefinitions: { [id: string]: ExternalSecretDefinition } = {
+  OsApi: {
+    secretName: 'os_api_gridwalk_basemap',
+    description: 'OS Data Hub project credentials for the basemap',
+    keys: ['project_api_key', 'project_api_secret'],
+    consumers: ['backend'],
+  },
+  Nodemailer: {
+    secretName: 'welcome_email_gw',
+    description: 'Mailbox used to send welcome emails',
+    keys: ['user', 'pass'],
+    consumers: ['ui', 'product'],
+  },
+};
+
+export interface ExternalSecretsProps {
+  // Create the secrets with placeholder values instead of importing existing ones
+  createPlaceholders: boolean;
+  definitions?: { [id: string]: ExternalSecretDefinition };
+}
+
+export class ExternalSecrets extends Construct {
+  private readonly definitions: { [id: string]: ExternalSecretDefinition };
+  private readonly secrets: { [id: string]: secretsmanager.ISecret } = {};
+
+  constructor(scope: Construct, id: string, props: ExternalSecretsProps) {
+    super(scope, id);
+    this.definitions = props.definitions ?? externalSecretDefinitions;
+
+    for (const [secretId, definition] of Object.entries(this.definitions)) {
+      if (props.createPlaceholders) {
+        const placeholder: { [key: string]: cdk.SecretValue } = {};
+        for (const key of definition.keys) {
+          placeholder[key] = cdk.SecretValue.unsafePlainText('REPLACE_ME');
+        }
+
+        // Retained so that values set by hand survive the stack being deleted
+        this.secrets[secretId] = new secretsmanager.Secret(this, secretId, {
+          secretName: definition.secretName,
+          description: `${definition.description} (placeholder, set the real values by hand)`,
+          secretObjectValue: placeholder,
+          removalPolicy: cdk.RemovalPolicy.RETAIN,
+        });
+      } else {
+        this.secrets[secretId] = secretsmanager.Secret.fromSecretNameV2(this, secretId, definition.secretName);
+      }
+    }
+  }
+
+  // An ECS secret for one key of a declared secret; fails synth if the consumer
+  // or key has not been declared
+  public ecsSecret(consumer: string, secretId: string, key: string): ecs.Secret {
+    const definition = this.definitions[secretId];
+    if (!definition) {
+      throw new Error(`External secret "${secretId}" is not declared`);
+    }
+    if (!definition.keys.includes(key)) {
+      throw new Error(`External secret "${secretId}" does not declare key "${key}" (declared: ${definition.keys.join(', ')})`);
+    }
+    if (!definition.consumers.includes(consumer)) {
+      throw new Error(`"${consumer}" is not a declared consumer of external secret "${secretId}" (declared: ${definition.consumers.join(', ')})`);
+    }
+
+    // Read access is granted to the execution role of the task definition using it
+    return ecs.Secret.fromSecretsManager(this.secrets[secretId], key);
+  }
+}
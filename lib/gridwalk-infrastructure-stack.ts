@@ -1,50 +1,140 @@
 import * as cdk from 'aws-cdk-lib';
-import * as cloudfront from 'aws-cdk-lib/aws-cloudfront';
 import * as dynamodb from 'aws-cdk-lib/aws-dynamodb';
 import * as ec2 from 'aws-cdk-lib/aws-ec2';
 import * as ecs from 'aws-cdk-lib/aws-ecs';
-import * as iam from 'aws-cdk-lib/aws-iam';
+import * as elbv2 from 'aws-cdk-lib/aws-elasticloadbalancingv2';
+import * as logs from 'aws-cdk-lib/aws-logs';
 import * as route53 from 'aws-cdk-lib/aws-route53';
-import * as s3 from 'aws-cdk-lib/aws-s3';
 import * as servicediscovery from 'aws-cdk-lib/aws-servicediscovery';
 import { Construct } from 'constructs';
 import { Network } from './network';
 import { ImageRepositories } from './storage'
-import { Instance } from './ec2'
 import { Database } from './data'
+import { DatabaseMigrations } from './migrations'
 import { Gridwalk } from './gridwalk-service'
+import { ExternalSecrets } from './external-secrets'
+import { DatabaseRemovalPolicy, GridwalkConfig, TableConfig, TableStream } from './config'
+import { TileCache } from './tile-cache'
+import { ViewRefresh } from './view-refresh'
+import { Ingestion } from './ingestion'
+import { Monitoring } from './monitoring'
+import { Logging } from './logging'
+import { Waf } from './waf'
+import { TableChanges } from './table-changes'
+import { TableBackups } from './table-backups'
+import { TaskRoleLeastPrivilege } from './least-privilege'
+import { OpsTask } from './ops-task'
 
+const removalPolicies: { [policy in DatabaseRemovalPolicy]: cdk.RemovalPolicy } = {
+  snapshot: cdk.RemovalPolicy.SNAPSHOT,
+  retain: cdk.RemovalPolicy.RETAIN,
+  destroy: cdk.RemovalPolicy.DESTROY,
+};
+
+const streamViewTypes: { [stream in TableStream]: dynamodb.StreamViewType } = {
+  keysOnly: dynamodb.StreamViewType.KEYS_ONLY,
+  newImage: dynamodb.StreamViewType.NEW_IMAGE,
+  oldImage: dynamodb.StreamViewType.OLD_IMAGE,
+  newAndOldImages: dynamodb.StreamViewType.NEW_AND_OLD_IMAGES,
+};
+
+function tableSettings(table: TableConfig): Partial<dynamodb.TablePropsV2> {
+  return {
+    pointInTimeRecovery: table.pointInTimeRecovery,
+    deletionProtection: table.deletionProtection,
+    removalPolicy: removalPolicies[table.removalPolicy],
+    timeToLiveAttribute: table.timeToLiveAttribute,
+    dynamoStream: table.stream ? streamViewTypes[table.stream] : undefined,
+  };
+}
+
+export interface GridwalkInfrastructureStackProps extends cdk.StackProps {
+  config: GridwalkConfig;
+}
 
 export class GridwalkInfrastructureStack extends cdk.Stack {
   public readonly network: Network;
   public readonly hostedZone: route53.IPublicHostedZone;
   public readonly ecrImage: ImageRepositories;
 
-  constructor(scope: Construct, id: string, props?: cdk.StackProps) {
+  constructor(scope: Construct, id: string, props: GridwalkInfrastructureStackProps) {
     super(scope, id, props);
+    const config = props.config;
+    cdk.Aspects.of(this).add(new TaskRoleLeastPrivilege());
 
     this.hostedZone = route53.PublicHostedZone.fromPublicHostedZoneAttributes(
       this, 'HostedZone', {
-        hostedZoneId: 'Z08439812RPAEHD661KZ4',
-        zoneName: 'gridwalk.co'
+        hostedZoneId: config.hostedZone.hostedZoneId,
+        zoneName: config.hostedZone.zoneName
       }
     );
 
+    // Named after the zone so that a domain keeps its logical IDs when another is removed
+    const customZones = config.customDomains.map((domain) =>
+      route53.PublicHostedZone.fromPublicHostedZoneAttributes(this, `${domain.zoneName}HostedZone`, {
+        hostedZoneId: domain.hostedZoneId,
+        zoneName: domain.zoneName
+      })
+    );
+    const domains = [config.hostedZone, ...config.customDomains];
+
     this.network = new Network(this, "Network", {
-      cidr: "10.0.0.0/16",
-      hostedZones: [this.hostedZone]
+      cidr: config.network.cidr,
+      hostedZones: [this.hostedZone, ...customZones],
+      egress: config.network.egress,
+      natGateways: config.network.natGateways,
+      databaseSubnets: config.network.databaseSubnets,
+      testListener: config.network.testListener
     });
 
-    this.ecrImage = new ImageRepositories(this, "ImageRepositories");
+    this.ecrImage = new ImageRepositories(this, "ImageRepositories", {
+      keepReleases: config.imageRepositories.keepReleases,
+      releaseTagPrefixes: config.imageRepositories.releaseTagPrefixes,
+      untaggedExpiryDays: config.imageRepositories.untaggedExpiryDays,
+      replicationRegions: config.imageRepositories.replicationRegions
+    });
 
     const database = new Database(this, 'Database', {
       network: {
         vpc: this.network.vpc,
-        subnetGroup: this.network.subnetGroup
+        subnetGroup: this.network.subnetGroup,
+        computeSubnets: this.network.computeSubnets
       },
-      databaseName: 'gridwalk',
-      schemaName: 'geo',
-      allocatedStorage: 20
+      databaseName: config.database.databaseName,
+      schemaName: config.database.schemaName,
+      allocatedStorage: config.database.allocatedStorage,
+      rotation: config.database.rotationDays ? cdk.Duration.days(config.database.rotationDays) : undefined,
+      logRetention: config.logging.retentionDays,
+      multiAz: config.database.multiAz,
+      backupRetention: cdk.Duration.days(config.database.backupRetentionDays),
+      preferredBackupWindow: config.database.backupWindow,
+      deletionProtection: config.database.deletionProtection,
+      removalPolicy: removalPolicies[config.database.removalPolicy],
+      performanceInsightRetention: config.database.performanceInsightsRetentionDays,
+      monitoringInterval: config.database.monitoringIntervalSeconds ? cdk.Duration.seconds(config.database.monitoringIntervalSeconds) : undefined,
+      maxAllocatedStorage: config.database.maxAllocatedStorage,
+      restore: config.database.restore
+    });
+
+    new DatabaseMigrations(this, 'DatabaseMigrations', {
+      network: {
+        vpc: this.network.vpc,
+        computeSubnets: this.network.computeSubnets
+      },
+      database: database,
+      databaseName: config.database.databaseName,
+      schemaName: config.database.schemaName
+    });
+
+    const viewRefresh = new ViewRefresh(this, 'ViewRefresh', {
+      network: {
+        vpc: this.network.vpc,
+        computeSubnets: this.network.computeSubnets
+      },
+      database: database,
+      databaseName: config.database.databaseName,
+      schemaName: config.database.schemaName,
+      schedules: config.database.viewRefresh
     });
 
     const gridwalkTable = new dynamodb.TableV2(this, 'GridwalkTable', {
@@ -59,84 +149,220 @@ export class GridwalkInfrastructureStack extends cdk.Stack {
           indexName: 'con',
           partitionKey: { name: 'con_id', type: dynamodb.AttributeType.STRING },
         }
-      ]
+      ],
+      ...tableSettings(config.tables.gridwalk)
     });
 
     const gridwalkLandingTable = new dynamodb.TableV2(this, 'GridwalkLandingTable', {
       partitionKey: { name: 'PK', type: dynamodb.AttributeType.STRING },
+      ...tableSettings(config.tables.landing)
     });
 
-    const instance = new Instance(this, 'Adhoc', {
-      network: {
-        vpc: this.network.vpc
+    // Stream consumers, by the name their function is monitored under
+    const tableChanges: { [name: string]: TableChanges } = {};
+    if (config.tables.gridwalk.stream) {
+      tableChanges.GridwalkTableChanges = new TableChanges(this, 'GridwalkTableChanges', { table: gridwalkTable });
+    }
+    if (config.tables.landing.stream) {
+      tableChanges.GridwalkLandingTableChanges = new TableChanges(this, 'GridwalkLandingTableChanges', { table: gridwalkLandingTable });
+    }
+
+    if (config.tables.backup) {
+      new TableBackups(this, 'TableBackups', {
+        tables: [gridwalkTable, gridwalkLandingTable],
+        schedule: config.tables.backup.schedule,
+        retention: cdk.Duration.days(config.tables.backup.retentionDays)
+      });
+    }
+
+    // ECS Exec sessions are logged to their own group so that task roles can be scoped to it
+    const executeCommandLogGroup = new logs.LogGroup(this, 'ExecuteCommandLogGroup', {
+      retention: config.logging.retentionDays
+    });
+    const cluster = new ecs.Cluster(this, 'Cluster', {
+      vpc: this.network.vpc,
+      executeCommandConfiguration: {
+        logging: ecs.ExecuteCommandLogging.OVERRIDE,
+        logConfiguration: { cloudWatchLogGroup: executeCommandLogGroup }
       }
     });
 
-    // Allow EC2 to connect to Postgres
-    database.databaseSecurityGroup.addIngressRule(
-      ec2.Peer.securityGroupId(instance.instanceSecurityGroup.securityGroupId),
-      ec2.Port.POSTGRES,
-      "EC2 to Postgres"
-    );
+    const ingestion = new Ingestion(this, 'Ingestion', {
+      network: {
+        vpc: this.network.vpc,
+        computeSubnets: this.network.computeSubnets
+      },
+      cluster: cluster,
+      database: database,
+      schemaName: config.database.schemaName,
+      cpu: config.ingestion.cpu,
+      memoryLimitMiB: config.ingestion.memoryLimitMiB,
+      ephemeralStorageGiB: config.ingestion.ephemeralStorageGiB,
+      logRetention: config.logging.retentionDays
+    });
 
-    // Allow EC2 to get secretcontaining Postgres details
-    database.instance.secret!.grantRead(instance.instanceRole);
+    new OpsTask(this, 'Ops', {
+      network: {
+        vpc: this.network.vpc,
+        computeSubnets: this.network.computeSubnets
+      },
+      cluster: cluster,
+      executeCommandLogGroup: executeCommandLogGroup,
+      database: database,
+      databaseRole: config.ops.databaseRole,
+      idleTimeout: cdk.Duration.minutes(config.ops.idleTimeoutMinutes),
+      cpu: config.ops.cpu,
+      memoryLimitMiB: config.ops.memoryLimitMiB,
+      logRetention: config.logging.retentionDays
+    });
 
-    const cluster = new ecs.Cluster(this, 'Cluster', { vpc: this.network.vpc });
     const namespace = new servicediscovery.PrivateDnsNamespace(this, 'Discovery', {
       vpc: this.network.vpc,
       name: "Gridwalk"
     });
 
+    const externalSecrets = new ExternalSecrets(this, 'ExternalSecrets', {
+      createPlaceholders: config.externalSecrets.createPlaceholders
+    });
+
     const gridwalk = new Gridwalk(this, 'Gridwalk', {
       vpc: this.network.vpc,
+      subnets: this.network.computeSubnets,
       cluster: cluster,
       serviceName: "gridwalk",
       serviceConnectNamespace: namespace.namespaceName,
       listener: this.network.httpsListener,
-      baseUrl: 'gridwalk.co',
+      testListener: this.network.testListener,
+      domains: domains.map((domain) => ({
+        name: domain.zoneName,
+        priorityBlock: domain.priorityBlock,
+        redirects: domain.redirects
+      })),
+      externalSecrets: externalSecrets,
+      logRetention: config.logging.retentionDays,
+      admin: {
+        email: config.admin.email
+      },
       backend: {
         ecrRepository: this.ecrImage.gridwalkBackend,
-        imageTag: "latest",
-        cpu: 256,
-        memoryLimitMiB: 512,
-        desiredCount: 1,
+        image: config.services.backend.image,
+        cpu: config.services.backend.cpu,
+        memoryLimitMiB: config.services.backend.memoryLimitMiB,
+        desiredCount: config.services.backend.desiredCount,
+        scaling: config.services.backend.scaling,
+        blueGreen: config.services.backend.blueGreen,
         dynamodbTable: gridwalkTable,
         primaryGeoDatabaseSecret: database.appSecret
       },
       ui: {
         ecrRepository: this.ecrImage.gridwalkUi,
-        imageTag: "latest",
-        cpu: 512,
-        memoryLimitMiB: 1024,
-        desiredCount: 1,
+        image: config.services.ui.image,
+        cpu: config.services.ui.cpu,
+        memoryLimitMiB: config.services.ui.memoryLimitMiB,
+        desiredCount: config.services.ui.desiredCount,
+        scaling: config.services.ui.scaling,
+        blueGreen: config.services.ui.blueGreen,
         dynamodbLandingTable: gridwalkLandingTable
       },
       product: {
         ecrRepository: this.ecrImage.gridwalkProduct,
-        imageTag: "latest",
-        cpu: 256,
-        memoryLimitMiB: 512,
-        desiredCount: 1,
+        image: config.services.product.image,
+        cpu: config.services.product.cpu,
+        memoryLimitMiB: config.services.product.memoryLimitMiB,
+        desiredCount: config.services.product.desiredCount,
+        scaling: config.services.product.scaling,
+        blueGreen: config.services.product.blueGreen,
         dynamodbLandingTable: gridwalkLandingTable
+      },
+      tiles: {
+        cpu: config.services.tiles.cpu,
+        memoryLimitMiB: config.services.tiles.memoryLimitMiB,
+        desiredCount: config.services.tiles.desiredCount,
+        scaling: config.services.tiles.scaling,
+        blueGreen: config.services.tiles.blueGreen,
+        databaseSecret: database.readSecret
       }
     });
 
-    gridwalk.backendTaskDefinition.taskRole!.addToPrincipalPolicy(
-      new iam.PolicyStatement({
-        actions: ['dynamodb:ListTables'],
-        resources: [`arn:aws:dynamodb:${cdk.Stack.of(this).region}:${cdk.Stack.of(this).account}:table/*`]
-      })
-    );
-    gridwalkTable.grantReadWriteData(gridwalk.backendTaskDefinition.taskRole!);
-    gridwalkLandingTable.grantReadWriteData(gridwalk.uiTaskDefinition.taskRole!);
-    gridwalkLandingTable.grantReadWriteData(gridwalk.productTaskDefinition.taskRole!);
-
     // Allow Backend task to connect to Postgres
     database.databaseSecurityGroup.addIngressRule(
-      ec2.Peer.securityGroupId(gridwalk.backendSecurityGroup.securityGroupId),
+      ec2.Peer.securityGroupId(gridwalk.backend.securityGroup.securityGroupId),
       ec2.Port.POSTGRES,
       "Gridwalk Backend to Postgres"
     );
+
+    // Allow Tile Server task to connect to Postgres
+    database.databaseSecurityGroup.addIngressRule(
+      ec2.Peer.securityGroupId(gridwalk.tiles.securityGroup.securityGroupId),
+      ec2.Port.POSTGRES,
+      "Gridwalk Tiles to Postgres"
+    );
+
+    if (config.waf) {
+      new Waf(this, 'Waf', {
+        loadBalancer: this.network.alb,
+        rateLimits: config.waf.rateLimits.map((rateLimit) => ({
+          name: rateLimit.name,
+          hosts: domains.map((domain) => rateLimit.subdomain ? `${rateLimit.subdomain}.${domain.zoneName}` : domain.zoneName),
+          limit: rateLimit.limit,
+        })),
+        allowedIps: config.waf.allowedIps,
+        blockedIps: config.waf.blockedIps,
+        countOnly: config.waf.countOnly,
+        countOnlyRules: config.waf.countOnlyRules,
+        logDestination: config.waf.logDestination,
+        logRetention: config.logging.retentionDays,
+      });
+    }
+
+    if (config.tileCache) {
+      // Reaches the ALB through the zone's wildcard record
+      const tileOrigin = `tiles-origin.${config.hostedZone.zoneName}`;
+      gridwalk.tiles.addListenerRule("CacheOriginListenerRule", 21, [
+        elbv2.ListenerCondition.hostHeaders([tileOrigin]),
+      ]);
+      new TileCache(this, 'TileCache', {
+        hostedZone: this.hostedZone,
+        domainName: `tiles.${config.hostedZone.zoneName}`,
+        originDomainName: tileOrigin,
+        certificate: this.network.certificates[config.hostedZone.zoneName],
+        tileTtl: cdk.Duration.seconds(config.tileCache.tileTtlSeconds),
+        staticTtl: cdk.Duration.seconds(config.tileCache.staticTtlSeconds),
+        prerenderedFailover: config.tileCache.prerenderedFailover,
+      });
+    }
+
+    const services = {
+      Backend: gridwalk.backend,
+      Ui: gridwalk.ui,
+      Product: gridwalk.product,
+      Tiles: gridwalk.tiles,
+    };
+
+    const logging = new Logging(this, 'Logging', {
+      services: services,
+      tileServer: gridwalk.tiles,
+      postgresLogGroup: database.postgresLogGroup,
+      ingestionLogGroup: ingestion.logGroup,
+    });
+
+    new Monitoring(this, 'Monitoring', {
+      loadBalancer: this.network.alb,
+      services: services,
+      database: database.instance,
+      tables: {
+        GridwalkTable: gridwalkTable,
+        GridwalkLandingTable: gridwalkLandingTable,
+      },
+      functions: {
+        DatabaseInit: database.initFunction,
+        ViewRefresh: viewRefresh.refreshFunction,
+        ...Object.fromEntries(Object.entries(tableChanges).map(([name, changes]) => [name, changes.consumer])),
+      },
+      logMetrics: logging.metrics,
+      thresholds: config.monitoring.thresholds,
+      alarmEmails: config.monitoring.alarmEmails,
+      alarmWebhooks: config.monitoring.alarmWebhooks,
+    });
   }
 }
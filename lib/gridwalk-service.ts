@@ -1,99 +1,169 @@
+import * as path from "path";
 import * as cdk from "aws-cdk-lib";
 import * as dynamodb from "aws-cdk-lib/aws-dynamodb";
-import * as s3 from "aws-cdk-lib/aws-s3";
 import * as ec2 from "aws-cdk-lib/aws-ec2";
 import * as ecs from "aws-cdk-lib/aws-ecs";
+import * as ecr_assets from "aws-cdk-lib/aws-ecr-assets";
 import * as ecr from "aws-cdk-lib/aws-ecr";
 import * as elbv2 from "aws-cdk-lib/aws-elasticloadbalancingv2";
+import * as logs from "aws-cdk-lib/aws-logs";
 import * as secretsmanager from "aws-cdk-lib/aws-secretsmanager";
 import { Construct } from "constructs";
+import { ExternalSecrets } from "./external-secrets";
+import { BlueGreenDeployment, ServiceScaling, WebService } from "./web-service";
 
-// Product landing page
-interface ProductConfig {
-  ecrRepository: ecr.IRepository;
-  imageTag: string;
+interface FargateConfig {
   cpu: number;
   memoryLimitMiB: number;
   desiredCount: number;
-  dynamodbLandingTable: dynamodb.TableV2;
+  scaling?: ServiceScaling;
+  blueGreen?: BlueGreenDeployment;
 }
 
-interface UiConfig {
+interface ServiceConfig extends FargateConfig {
   ecrRepository: ecr.IRepository;
-  imageTag: string;
-  cpu: number;
-  memoryLimitMiB: number;
-  desiredCount: number;
+  // Release tag or sha256: digest
+  image: string;
+}
+
+// Product landing page
+interface ProductConfig extends ServiceConfig {
   dynamodbLandingTable: dynamodb.TableV2;
 }
 
-interface BackendConfig {
-  ecrRepository: ecr.IRepository;
-  imageTag: string;
-  cpu: number;
-  memoryLimitMiB: number;
-  desiredCount: number;
+interface UiConfig extends ServiceConfig {
+  dynamodbLandingTable: dynamodb.TableV2;
+}
+
+interface BackendConfig extends ServiceConfig {
   dynamodbTable: dynamodb.TableV2;
   primaryGeoDatabaseSecret: secretsmanager.ISecret;
 }
 
+// Vector tile server, built from lib/tile-server
+interface TilesConfig extends FargateConfig {
+  // Read only role used to call the *_mvt functions
+  databaseSecret: secretsmanager.ISecret;
+}
+
+// The services and listener rules as first deployed, before WebService. A blue/green service
+// has a different deployment controller, so it is always a new service; see "Moving a
+// deployed service to blue/green" in the README.
+const deployedLogicalIds = {
+  backend: {
+    service: "GridwalkBackendService27B4DA4F",
+    listenerRule: "NetworkApplicationLoadBalancerListener443GridwalkBackendTargetGroupRuleFB8E7926",
+  },
+  ui: {
+    service: "GridwalkUiServiceC636B41A",
+    listenerRule: "NetworkApplicationLoadBalancerListener443GridwalkUiTargetGroupRule125489AC",
+  },
+  product: {
+    service: "GridwalkProductService6C1B46D2",
+    listenerRule: "NetworkApplicationLoadBalancerListener443GridwalkProductTargetGroupRule8968A9D8",
+  },
+};
+
+interface GridwalkDomain {
+  name: string;
+  // Listener rule priorities block * 100 to block * 100 + 99; the first domain has block 0
+  priorityBlock: number;
+  // Subdomains redirected to another subdomain, or to the apex when to is omitted, e.g. www.
+  // priority is the rule's place in the block, from 40 to 99.
+  redirects?: { from: string; to?: string; priority: number }[];
+}
+
 interface GridwalkProps extends cdk.StackProps {
   vpc: ec2.IVpc;
+  subnets: ec2.SubnetSelection;
   cluster: ecs.ICluster;
   serviceName: string;
   serviceConnectNamespace: string;
   listener: elbv2.IApplicationListener;
-  baseUrl: string;
+  // Needed by services with blue/green deployments
+  testListener?: elbv2.IApplicationListener;
+  // Every domain serves the same services; the first is where they link to
+  domains: GridwalkDomain[];
+  externalSecrets: ExternalSecrets;
+  logRetention: logs.RetentionDays;
+  // Admin user created by the backend on first start
+  admin: {
+    email: string;
+  };
 
   product: ProductConfig;
   ui: UiConfig;
   backend: BackendConfig;
+  tiles: TilesConfig;
 }
 
 export class Gridwalk extends Construct {
-  public readonly backendSecurityGroup: ec2.SecurityGroup;
-  public readonly backendTaskDefinition: ecs.FargateTaskDefinition;
-  public readonly uiTaskDefinition: ecs.FargateTaskDefinition;
-  public readonly productTaskDefinition: ecs.FargateTaskDefinition;
+  public readonly backend: WebService;
+  public readonly ui: WebService;
+  public readonly product: WebService;
+  public readonly tiles: WebService;
+  public readonly adminSecret: secretsmanager.Secret;
 
   constructor(scope: Construct, id: string, props: GridwalkProps) {
     super(scope, id);
 
-    // Create a task definition for the backend
-    this.backendTaskDefinition = new ecs.FargateTaskDefinition(this, "BackendTaskDef", {
-      memoryLimitMiB: props.backend.memoryLimitMiB,
-      cpu: props.backend.cpu,
-      runtimePlatform: {
-        cpuArchitecture: ecs.CpuArchitecture.ARM64,
+    if (props.domains.length === 0) {
+      throw new Error("Gridwalk needs at least one domain");
+    }
+    // The first domain's rules are created with the services, with priorities from 0
+    const blocks = props.domains.map((domain) => domain.priorityBlock);
+    if (blocks[0] !== 0 || blocks.slice(1).includes(0) || new Set(blocks).size !== blocks.length) {
+      throw new Error(`Gridwalk domains need unique priority blocks, with 0 for the first only; got ${blocks.join(", ")}`);
+    }
+    const baseUrl = props.domains[0].name;
+
+    const shared = {
+      vpc: props.vpc,
+      subnets: props.subnets,
+      cluster: props.cluster,
+      serviceConnectNamespace: props.serviceConnectNamespace,
+      listener: props.listener,
+      testListener: props.testListener,
+      logRetention: props.logRetention,
+    };
+
+    // Not rotated: the backend only reads the password to create the admin on first start,
+    // and has no way for a rotation to change it afterwards
+    this.adminSecret = new secretsmanager.Secret(this, "AdminSecret", {
+      generateSecretString: {
+        secretStringTemplate: JSON.stringify({
+          email: props.admin.email,
+        }),
+        generateStringKey: "password",
+        passwordLength: 30,
+        excludeCharacters: '"@/\\\'',
       },
+      description: `Bootstrap admin user for ${baseUrl}`,
     });
 
-    const os_api_secret = secretsmanager.Secret.fromSecretPartialArn(
-      this,
-      "OsApiSecret",
-      "arn:aws:secretsmanager:us-east-1:017820660020:secret:os_api_gridwalk_basemap",
-    );
-
-    // Add container to the backend task definition
-    const backendContainer = this.backendTaskDefinition.addContainer("GridwalkBackendContainer", {
-      image: ecs.ContainerImage.fromEcrRepository(
-        props.backend.ecrRepository,
-        props.backend.imageTag,
-      ),
+    this.backend = new WebService(this, "Backend", {
+      ...shared,
+      ...props.backend,
+      image: ecs.ContainerImage.fromEcrRepository(props.backend.ecrRepository, props.backend.image),
+      serviceName: `${props.serviceName}-backend`,
+      port: 3001,
+      healthCheckPath: "/health",
+      priority: 10,
+      deployedLogicalIds: props.backend.blueGreen ? undefined : deployedLogicalIds.backend,
+      conditions: [
+        elbv2.ListenerCondition.hostHeaders([`api.${baseUrl}`]),
+      ],
       environment: {
         GW_DYNAMODB_TABLE: props.backend.dynamodbTable.tableName,
-        GW_USER_EMAIL: "admin@gridwalk.co",
-        GW_USER_PASSWORD: "initialPass999",
+        GW_USER_EMAIL: props.admin.email,
       },
       secrets: {
-        OS_PROJECT_API_KEY: ecs.Secret.fromSecretsManager(
-          os_api_secret,
-          "project_api_key",
-        ),
-        OS_PROJECT_API_SECRET: ecs.Secret.fromSecretsManager(
-          os_api_secret,
-          "project_api_secret",
+        GW_USER_PASSWORD: ecs.Secret.fromSecretsManager(
+          this.adminSecret,
+          "password",
         ),
+        OS_PROJECT_API_KEY: props.externalSecrets.ecsSecret("backend", "OsApi", "project_api_key"),
+        OS_PROJECT_API_SECRET: props.externalSecrets.ecsSecret("backend", "OsApi", "project_api_secret"),
         GW_POSTGRES_HOST: ecs.Secret.fromSecretsManager(
           props.backend.primaryGeoDatabaseSecret,
           "host",
@@ -115,180 +185,50 @@ export class Gridwalk extends Construct {
           "password",
         ),
       },
-      logging: new ecs.AwsLogDriver({ streamPrefix: "GridwalkBackendService" }),
-    });
-
-    // Add port mapping to the container
-    backendContainer.addPortMappings({
-      containerPort: 3001,
-      protocol: ecs.Protocol.TCP,
-    });
-
-    this.backendSecurityGroup = new ec2.SecurityGroup(this, "BackendSecurityGroup", {
-      vpc: props.vpc,
-      description: "Used by Gridwalk Backend Service",
-      allowAllOutbound: true,
-      disableInlineRules: true,
-    });
-
-    // Allow inbound traffic on port 3001 from the ALB's security group
-    this.backendSecurityGroup.addIngressRule(
-      ec2.SecurityGroup.fromSecurityGroupId(
-        this,
-        "ALBSecurityGroup",
-        props.listener.connections.securityGroups[0].securityGroupId,
-      ),
-      ec2.Port.tcp(3001),
-      "Allow inbound traffic from ALB",
-    );
-
-    // Create the Fargate service for backend
-    const backendService = new ecs.FargateService(this, "BackendService", {
-      cluster: props.cluster,
-      taskDefinition: this.backendTaskDefinition,
-      desiredCount: props.backend.desiredCount,
-      serviceName: `${props.serviceName}-backend`,
-      vpcSubnets: { subnetType: ec2.SubnetType.PUBLIC },
-      securityGroups: [this.backendSecurityGroup],
-      assignPublicIp: true,
-      enableECSManagedTags: true,
-      enableExecuteCommand: true,
-      propagateTags: ecs.PropagatedTagSource.TASK_DEFINITION,
-      serviceConnectConfiguration: {
-        namespace: props.serviceConnectNamespace,
-      },
-    });
-
-    // Create a target group for the backend service
-    const backendTargetGroup = new elbv2.ApplicationTargetGroup(this, "BackendTargetGroup", {
-      vpc: props.vpc,
-      port: 3001,
-      protocol: elbv2.ApplicationProtocol.HTTP,
-      targetType: elbv2.TargetType.IP,
-      healthCheck: {
-        path: "/health",
-        interval: cdk.Duration.seconds(30),
-        timeout: cdk.Duration.seconds(3),
-      },
+      tableAccess: [{
+        table: props.backend.dynamodbTable,
+        // DescribeTable lets the backend check its table on startup
+        actions: ["GetItem", "BatchGetItem", "Query", "PutItem", "UpdateItem", "DeleteItem", "BatchWriteItem", "DescribeTable"],
+        indexes: ["user", "con"],
+      }],
     });
+    this.backend.redeployOnSecretRotation("DatabaseSecretRotated", props.backend.primaryGeoDatabaseSecret);
 
-    // Attach the backend service to the target group
-    backendService.attachToApplicationTargetGroup(backendTargetGroup);
-
-    // Add the target group to the listener
-    props.listener.addTargetGroups("GridwalkBackendTargetGroup", {
-      targetGroups: [backendTargetGroup],
-      priority: 10,
+    this.ui = new WebService(this, "Ui", {
+      ...shared,
+      ...props.ui,
+      image: ecs.ContainerImage.fromEcrRepository(props.ui.ecrRepository, props.ui.image),
+      serviceName: `${props.serviceName}-ui`,
+      port: 3000,
+      healthCheckPath: "/login",
+      priority: 5,
+      deployedLogicalIds: props.ui.blueGreen ? undefined : deployedLogicalIds.ui,
       conditions: [
-        elbv2.ListenerCondition.hostHeaders([`api.${props.baseUrl}`]),
+        elbv2.ListenerCondition.hostHeaders([`app.${baseUrl}`]),
       ],
-    });
-
-    // Grant the task execution role permission to pull images from ECR
-    props.backend.ecrRepository.grantPull(this.backendTaskDefinition.executionRole!);
-
-    // Create a task definition for the UI
-    this.uiTaskDefinition = new ecs.FargateTaskDefinition(this, "UiTaskDef", {
-      memoryLimitMiB: props.ui.memoryLimitMiB,
-      cpu: props.ui.cpu,
-      runtimePlatform: {
-        cpuArchitecture: ecs.CpuArchitecture.ARM64,
-      },
-    });
-
-    const nodemailer_secret = secretsmanager.Secret.fromSecretPartialArn(
-      this,
-      "NodemailerSecret",
-      "arn:aws:secretsmanager:us-east-1:017820660020:secret:welcome_email_gw",
-    );
-
-
-    // Add container to the UI task definition
-    const uiContainer = this.uiTaskDefinition.addContainer("GridwalkUiContainer", {
-      image: ecs.ContainerImage.fromEcrRepository(
-        props.ui.ecrRepository,
-        props.ui.imageTag,
-      ),
       environment: {
-        GRIDWALK_API: "https://api.gridwalk.co",
+        GRIDWALK_API: `https://api.${baseUrl}`,
         DYNAMODB_LANDING_TABLE: props.ui.dynamodbLandingTable.tableName,
       },
       secrets: {
-        NODEMAILER_USER: ecs.Secret.fromSecretsManager(
-          nodemailer_secret,
-          "user",
-        ),
-        NODEMAILER_PASS: ecs.Secret.fromSecretsManager(
-          nodemailer_secret,
-          "pass",
-        ),
-      },
-      logging: new ecs.AwsLogDriver({ streamPrefix: "GridwalkUiService" }),
-    });
-
-    uiContainer.addPortMappings({
-      containerPort: 3000,
-      protocol: ecs.Protocol.TCP,
-    });
-
-    const uiSecurityGroup = new ec2.SecurityGroup(this, "UiSecurityGroup", {
-      vpc: props.vpc,
-      description: "Used by Gridwalk UI Service",
-      allowAllOutbound: true,
-      disableInlineRules: true,
-    });
-
-    // Allow inbound traffic on port 3000 from the ALB's security group
-    uiSecurityGroup.addIngressRule(
-      ec2.SecurityGroup.fromSecurityGroupId(
-        this,
-        "UiAlbSecurityGroup",
-        props.listener.connections.securityGroups[0].securityGroupId,
-      ),
-      ec2.Port.tcp(3000),
-      "Allow inbound traffic from ALB",
-    );
-
-    const uiService = new ecs.FargateService(this, "UiService", {
-      cluster: props.cluster,
-      taskDefinition: this.uiTaskDefinition,
-      desiredCount: props.ui.desiredCount,
-      serviceName: `${props.serviceName}-ui`,
-      vpcSubnets: { subnetType: ec2.SubnetType.PUBLIC },
-      securityGroups: [uiSecurityGroup],
-      assignPublicIp: true,
-      enableECSManagedTags: true,
-      enableExecuteCommand: true,
-      propagateTags: ecs.PropagatedTagSource.TASK_DEFINITION,
-      serviceConnectConfiguration: {
-        namespace: props.serviceConnectNamespace,
-      },
-    });
-
-    const uiTargetGroup = new elbv2.ApplicationTargetGroup(this, "UiTargetGroup", {
-      vpc: props.vpc,
-      port: 3000,
-      protocol: elbv2.ApplicationProtocol.HTTP,
-      targetType: elbv2.TargetType.IP,
-      healthCheck: {
-        path: "/login",
-        interval: cdk.Duration.seconds(30),
-        timeout: cdk.Duration.seconds(3),
+        NODEMAILER_USER: props.externalSecrets.ecsSecret("ui", "Nodemailer", "user"),
+        NODEMAILER_PASS: props.externalSecrets.ecsSecret("ui", "Nodemailer", "pass"),
       },
+      tableAccess: [{
+        table: props.ui.dynamodbLandingTable,
+        actions: ["GetItem", "PutItem", "UpdateItem"],
+      }],
     });
 
-    // Attach the UI service to the target group
-    uiService.attachToApplicationTargetGroup(uiTargetGroup);
-
     // Add a redirect rule for the root path of app subdomain
     props.listener.addAction("AppRootRedirect", {
       priority: 4, // Higher priority (lower number) than the app rule
       conditions: [
-        elbv2.ListenerCondition.hostHeaders([`app.${props.baseUrl}`]),
+        elbv2.ListenerCondition.hostHeaders([`app.${baseUrl}`]),
         elbv2.ListenerCondition.pathPatterns(['/'])
       ],
       action: elbv2.ListenerAction.redirect({
-        host: props.baseUrl,
+        host: baseUrl,
         path: '/',
         permanent: true,
         port: '443',
@@ -296,113 +236,116 @@ export class Gridwalk extends Construct {
       })
     });
 
-    // Add the target group to the listener
-    props.listener.addTargetGroups("GridwalkUiTargetGroup", {
-      targetGroups: [uiTargetGroup],
-      priority: 5,
+    this.product = new WebService(this, "Product", {
+      ...shared,
+      ...props.product,
+      image: ecs.ContainerImage.fromEcrRepository(props.product.ecrRepository, props.product.image),
+      serviceName: `${props.serviceName}-product`,
+      port: 3000,
+      healthCheckPath: "/",
+      priority: 30,
+      deployedLogicalIds: props.product.blueGreen ? undefined : deployedLogicalIds.product,
       conditions: [
-        elbv2.ListenerCondition.hostHeaders([`app.${props.baseUrl}`])
+        elbv2.ListenerCondition.hostHeaders([baseUrl]),
       ],
-    });
-
-    // Grant the task execution role permission to pull images from ECR
-    props.ui.ecrRepository.grantPull(this.uiTaskDefinition.executionRole!);
-
-    // Product landing page
-    this.productTaskDefinition = new ecs.FargateTaskDefinition(this, "ProductTaskDef", {
-      memoryLimitMiB: props.backend.memoryLimitMiB,
-      cpu: props.backend.cpu,
-      runtimePlatform: {
-        cpuArchitecture: ecs.CpuArchitecture.ARM64,
-      },
-    });
-
-    // Add container to the product task definition
-    const productContainer = this.productTaskDefinition.addContainer("GridwalkProductContainer", {
-      image: ecs.ContainerImage.fromEcrRepository(
-        props.product.ecrRepository,
-        props.product.imageTag,
-      ),
       environment: {
         DYNAMODB_LANDING_TABLE: props.product.dynamodbLandingTable.tableName,
       },
       secrets: {
-        NODEMAILER_USER: ecs.Secret.fromSecretsManager(
-          nodemailer_secret,
-          "user",
-        ),
-        NODEMAILER_PASS: ecs.Secret.fromSecretsManager(
-          nodemailer_secret,
-          "pass",
-        ),
+        NODEMAILER_USER: props.externalSecrets.ecsSecret("product", "Nodemailer", "user"),
+        NODEMAILER_PASS: props.externalSecrets.ecsSecret("product", "Nodemailer", "pass"),
       },
-      logging: new ecs.AwsLogDriver({ streamPrefix: "GridwalkProductService" }),
-    });
-
-    productContainer.addPortMappings({
-      containerPort: 3000,
-      protocol: ecs.Protocol.TCP,
-    });
-
-    const productSecurityGroup = new ec2.SecurityGroup(this, "ProductSecurityGroup", {
-      vpc: props.vpc,
-      description: "Used by Gridwalk Product Service",
-      allowAllOutbound: true,
-      disableInlineRules: true,
+      // Only records sign-ups
+      tableAccess: [{
+        table: props.product.dynamodbLandingTable,
+        actions: ["PutItem"],
+      }],
     });
 
-    // Allow inbound traffic on port 3000 from the ALB's security group
-    productSecurityGroup.addIngressRule(
-      ec2.SecurityGroup.fromSecurityGroupId(
-        this,
-        "ProductAlbSecurityGroup",
-        props.listener.connections.securityGroups[0].securityGroupId,
-      ),
-      ec2.Port.tcp(3000),
-      "Allow inbound traffic from ALB",
-    );
-
-    const productService = new ecs.FargateService(this, "ProductService", {
-      cluster: props.cluster,
-      taskDefinition: this.productTaskDefinition,
-      desiredCount: props.product.desiredCount,
-      serviceName: `${props.serviceName}-product`,
-      vpcSubnets: { subnetType: ec2.SubnetType.PUBLIC },
-      securityGroups: [productSecurityGroup],
-      assignPublicIp: true,
-      enableECSManagedTags: true,
-      enableExecuteCommand: true,
-      propagateTags: ecs.PropagatedTagSource.TASK_DEFINITION,
-      serviceConnectConfiguration: {
-        namespace: props.serviceConnectNamespace,
+    /* eslint-disable no-undef */
+    const tileServerDir = path.join(__dirname, "tile-server");
+    /* eslint-enable no-undef */
+
+    this.tiles = new WebService(this, "Tiles", {
+      ...shared,
+      ...props.tiles,
+      image: ecs.ContainerImage.fromAsset(tileServerDir, {
+        platform: ecr_assets.Platform.LINUX_ARM64,
+      }),
+      serviceName: `${props.serviceName}-tiles`,
+      port: 3002,
+      healthCheckPath: "/health",
+      priority: 20,
+      conditions: [
+        elbv2.ListenerCondition.hostHeaders([`tiles.${baseUrl}`]),
+      ],
+      environment: {
+        PORT: "3002",
+        PUBLIC_URL: `https://tiles.${baseUrl}`,
+        CUSTOM_TILE_HOSTS: props.domains.slice(1).map((domain) => `tiles.${domain.name}`).join(","),
       },
-    });
-
-    const productTargetGroup = new elbv2.ApplicationTargetGroup(this, "ProductTargetGroup", {
-      vpc: props.vpc,
-      port: 3000,
-      protocol: elbv2.ApplicationProtocol.HTTP,
-      targetType: elbv2.TargetType.IP,
-      healthCheck: {
-        path: "/",
-        interval: cdk.Duration.seconds(30),
-        timeout: cdk.Duration.seconds(3),
+      secrets: {
+        PGHOST: ecs.Secret.fromSecretsManager(props.tiles.databaseSecret, "host"),
+        PGPORT: ecs.Secret.fromSecretsManager(props.tiles.databaseSecret, "port"),
+        PGDATABASE: ecs.Secret.fromSecretsManager(props.tiles.databaseSecret, "dbname"),
+        PGUSER: ecs.Secret.fromSecretsManager(props.tiles.databaseSecret, "username"),
+        PGPASSWORD: ecs.Secret.fromSecretsManager(props.tiles.databaseSecret, "password"),
       },
     });
+    this.tiles.redeployOnSecretRotation("DatabaseSecretRotated", props.tiles.databaseSecret);
 
-    // Attach the UI service to the target group
-    productService.attachToApplicationTargetGroup(productTargetGroup);
-
-    // Add the target group to the listener
-    props.listener.addTargetGroups("GridwalkProductTargetGroup", {
-      targetGroups: [productTargetGroup],
-      priority: 30,
-      conditions: [
-        elbv2.ListenerCondition.hostHeaders([props.baseUrl]),
-      ],
-    });
+    props.domains.forEach((domain, i) => this.addDomain(props.listener, domain, i === 0));
+  }
 
-    // Grant the task execution role permission to pull images from ECR
-    props.product.ecrRepository.grantPull(this.productTaskDefinition.executionRole!);
+  // Rules for one domain, numbered within its priority block so that adding or removing
+  // a domain leaves the others' priorities alone
+  private addDomain(listener: elbv2.IApplicationListener, domain: GridwalkDomain, primary: boolean) {
+    const offset = domain.priorityBlock * 100;
+    const prefix = primary ? "" : domain.name;
+
+    if (!primary) {
+      const rules: [WebService, string, number][] = [
+        [this.ui, `app.${domain.name}`, 5],
+        [this.backend, `api.${domain.name}`, 10],
+        [this.tiles, `tiles.${domain.name}`, 20],
+        [this.product, domain.name, 30],
+      ];
+      for (const [service, host, priority] of rules) {
+        service.addListenerRule(`${prefix}ListenerRule`, offset + priority, [
+          elbv2.ListenerCondition.hostHeaders([host]),
+        ]);
+      }
+
+      listener.addAction(`${prefix}AppRootRedirect`, {
+        priority: offset + 4,
+        conditions: [
+          elbv2.ListenerCondition.hostHeaders([`app.${domain.name}`]),
+          elbv2.ListenerCondition.pathPatterns(["/"]),
+        ],
+        action: elbv2.ListenerAction.redirect({
+          host: domain.name,
+          path: "/",
+          permanent: true,
+          port: "443",
+          protocol: "HTTPS",
+        }),
+      });
+    }
+
+    // Keeps the path and query of the request
+    for (const redirect of domain.redirects ?? []) {
+      listener.addAction(`${prefix}Redirect${redirect.from}`, {
+        priority: offset + redirect.priority,
+        conditions: [
+          elbv2.ListenerCondition.hostHeaders([`${redirect.from}.${domain.name}`]),
+        ],
+        action: elbv2.ListenerAction.redirect({
+          host: redirect.to ? `${redirect.to}.${domain.name}` : domain.name,
+          permanent: true,
+          port: "443",
+          protocol: "HTTPS",
+        }),
+      });
+    }
   }
 }
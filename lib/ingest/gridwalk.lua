@@ -0,0 +1,53 @@
+-- osm2pgsql flex style loading OSM extracts into the ingestion staging tables.
+-- The columns match the buildings and roads tables created by the migrations.
+local schema = os.getenv('SCHEMA_NAME') or 'public'
+
+local buildings = osm2pgsql.define_table({
+    name = 'buildings_staging',
+    schema = schema,
+    ids = { type = 'area', id_column = 'osm_id' },
+    columns = {
+        { column = 'name', type = 'text' },
+        { column = 'building', type = 'text' },
+        { column = 'geom', type = 'geometry', projection = 3857, not_null = true },
+    },
+})
+
+local roads = osm2pgsql.define_table({
+    name = 'roads_staging',
+    schema = schema,
+    ids = { type = 'way', id_column = 'osm_id' },
+    columns = {
+        { column = 'name', type = 'text' },
+        { column = 'highway', type = 'text' },
+        { column = 'geom', type = 'linestring', projection = 3857, not_null = true },
+    },
+})
+
+function osm2pgsql.process_way(object)
+    if object.tags.highway then
+        roads:insert({
+            name = object.tags.name,
+            highway = object.tags.highway,
+            geom = object:as_linestring(),
+        })
+    end
+
+    if object.tags.building and object.is_closed then
+        buildings:insert({
+            name = object.tags.name,
+            building = object.tags.building,
+            geom = object:as_polygon(),
+        })
+    end
+end
+
+function osm2pgsql.process_relation(object)
+    if object.tags.type == 'multipolygon' and object.tags.building then
+        buildings:insert({
+            name = object.tags.name,
+            building = object.tags.building,
+            geom = object:as_multipolygon(),
+        })
+    end
+end
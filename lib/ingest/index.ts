@@ -0,0 +1,190 @@
+import { spawn } from 'child_process';
+import * as fs from 'fs';
+import * as path from 'path';
+import { pipeline } from 'stream/promises';
+import { Readable } from 'stream';
+import { DynamoDBClient } from '@aws-sdk/client-dynamodb';
+import { DynamoDBDocumentClient, PutCommand, UpdateCommand } from '@aws-sdk/lib-dynamodb';
+import { GetObjectCommand, S3Client } from '@aws-sdk/client-s3';
+import { Client } from 'pg';
+import { datasets, decodeObjectKey, LoadPlan, planLoad } from './sources';
+
+// Set by the EventBridge rule for the uploaded object
+const bucket = process.env.SOURCE_BUCKET!;
+const key = decodeObjectKey(process.env.SOURCE_KEY!);
+const schema = process.env.SCHEMA_NAME!;
+const auditTable = process.env.AUDIT_TABLE!;
+const workDir = process.env.WORK_DIR ?? '/tmp/ingest';
+
+// Arbitrary key so that two uploads never load into the staging tables at once
+const ingestLockId = 72318;
+
+interface DatasetStats {
+  rows: number;
+  repairedGeometries: number;
+  emptyGeometries: number;
+}
+
+const s3 = new S3Client();
+const dynamodb = DynamoDBDocumentClient.from(new DynamoDBClient());
+
+// Loads and index builds outlast the parameter group's 60 second statement_timeout
+function run(command: string, args: string[]): Promise<void> {
+  console.log(`Running ${command} ${args.join(' ')}`);
+  return new Promise((resolve, reject) => {
+    const env = { ...process.env, SCHEMA_NAME: schema, PGOPTIONS: '-c statement_timeout=0' };
+    const child = spawn(command, args, { stdio: 'inherit', env: env });
+    child.on('error', reject);
+    child.on('exit', (code) => code === 0 ? resolve() : reject(new Error(`${command} exited with ${code}`)));
+  });
+}
+
+async function download(): Promise<string> {
+  fs.mkdirSync(workDir, { recursive: true });
+  const file = path.join(workDir, path.basename(key));
+  const object = await s3.send(new GetObjectCommand({ Bucket: bucket, Key: key }));
+  await pipeline(object.Body as Readable, fs.createWriteStream(file));
+  return file;
+}
+
+// Both loaders connect with the PG* variables injected from the gis_admin secret
+async function load(plan: LoadPlan, file: string) {
+  if (plan.loader === 'osm2pgsql') {
+    await run('osm2pgsql', [
+      '--create', '--slim', '--drop',
+      '--output=flex', '--style=gridwalk.lua',
+      `--middle-schema=${schema}`,
+      file,
+    ]);
+    return;
+  }
+
+  await run('ogr2ogr', [
+    '-f', 'PostgreSQL', 'PG:',
+    plan.source(file),
+    '-overwrite',
+    '-nln', `${plan.datasets[0]}_staging`,
+    '-lco', `SCHEMA=${schema}`,
+    '-lco', 'GEOMETRY_NAME=geom',
+    '-lco', 'SPATIAL_INDEX=NONE',
+    '-nlt', 'GEOMETRY',
+    '-t_srs', 'EPSG:3857',
+  ]);
+}
+
+// Check a staging table before it replaces the live one. Invalid geometries are
+// repaired; a wrong SRID, missing columns or an empty load fail the ingestion.
+async function validate(client: Client, dataset: string): Promise<DatasetStats> {
+  const staging = `${dataset}_staging`;
+  const required = ['osm_id', 'name', datasets[dataset].typeColumn, 'geom'];
+
+  const columns = await client.query(
+    'SELECT column_name FROM information_schema.columns WHERE table_schema = $1 AND table_name = $2;',
+    [schema, staging],
+  );
+  const missing = required.filter((column) => !columns.rows.some((row) => row.column_name === column));
+  if (missing.length > 0) {
+    throw new Error(`${staging} is missing columns: ${missing.join(', ')}`);
+  }
+
+  const counts = await client.query(`SELECT
+      count(*)::int AS rows,
+      count(*) FILTER (WHERE geom IS NULL OR ST_IsEmpty(geom))::int AS empty,
+      count(*) FILTER (WHERE ST_SRID(geom) <> 3857)::int AS wrong_srid
+    FROM ${staging};`);
+  const { rows, empty, wrong_srid: wrongSrid } = counts.rows[0];
+  if (rows - empty === 0) {
+    throw new Error(`${staging} has no features with a geometry`);
+  }
+  if (wrongSrid > 0) {
+    throw new Error(`${staging} has ${wrongSrid} geometries that are not in EPSG:3857`);
+  }
+
+  const repaired = await client.query(`UPDATE ${staging} SET geom = ST_MakeValid(geom)
+    WHERE geom IS NOT NULL AND NOT ST_IsValid(geom);`);
+  return { rows: rows - empty, repairedGeometries: repaired.rowCount ?? 0, emptyGeometries: empty };
+}
+
+async function ingest(plan: LoadPlan): Promise<{ [dataset: string]: DatasetStats }> {
+  const file = await download();
+
+  const client = new Client({
+    ssl: {
+      ca: fs.readFileSync('./global-bundle.pem').toString(),
+    },
+  });
+  await client.connect();
+
+  try {
+    // As for the loaders; the geometry repair and the swap scan whole tables
+    await client.query('SET statement_timeout = 0;');
+    await client.query(`SELECT pg_advisory_lock(${ingestLockId});`);
+    await client.query(`SET search_path TO ${schema}, public;`);
+    await load(plan, file);
+
+    const stats: { [dataset: string]: DatasetStats } = {};
+    for (const dataset of plan.datasets) {
+      stats[dataset] = await validate(client, dataset);
+    }
+
+    // Replace every dataset in one transaction so that readers never see a partial load
+    const typeColumn = (dataset: string) => datasets[dataset].typeColumn;
+    await client.query('BEGIN;');
+    try {
+      for (const dataset of plan.datasets) {
+        await client.query(`TRUNCATE ${dataset};`);
+        await client.query(`INSERT INTO ${dataset} (osm_id, name, ${typeColumn(dataset)}, geom)
+          SELECT osm_id::bigint, name, ${typeColumn(dataset)}, geom
+          FROM ${dataset}_staging
+          WHERE geom IS NOT NULL AND NOT ST_IsEmpty(geom);`);
+      }
+      await client.query('COMMIT;');
+    } catch (error) {
+      await client.query('ROLLBACK;');
+      throw error;
+    }
+    return stats;
+  } finally {
+    for (const dataset of plan.datasets) {
+      await client.query(`DROP TABLE IF EXISTS ${dataset}_staging;`);
+    }
+    await client.end();
+    fs.rmSync(workDir, { recursive: true, force: true });
+  }
+}
+
+async function main() {
+  const startedAt = new Date().toISOString();
+  const auditKey = { sourceKey: key, startedAt: startedAt };
+  const finish = (status: string, values: { [name: string]: unknown }) => dynamodb.send(new UpdateCommand({
+    TableName: auditTable,
+    Key: auditKey,
+    UpdateExpression: `SET #status = :status, finishedAt = :finishedAt, ${Object.keys(values).map((name) => `${name} = :${name}`).join(', ')}`,
+    ExpressionAttributeNames: { '#status': 'status' },
+    ExpressionAttributeValues: {
+      ':status': status,
+      ':finishedAt': new Date().toISOString(),
+      ...Object.fromEntries(Object.entries(values).map(([name, value]) => [`:${name}`, value])),
+    },
+  }));
+
+  await dynamodb.send(new PutCommand({
+    TableName: auditTable,
+    Item: { ...auditKey, bucket: bucket, status: 'RUNNING' },
+  }));
+
+  try {
+    const plan = planLoad(key);
+    const stats = await ingest(plan);
+    await finish('SUCCEEDED', { datasets: stats });
+    console.log(`Loaded ${key}`, JSON.stringify(stats));
+  } catch (error) {
+    await finish('FAILED', { failure: String(error) });
+    throw error;
+  }
+}
+
+main().catch((error) => {
+  console.error(`Failed to load ${key}`, error);
+  process.exitCode = 1;
+});
@@ -0,0 +1,38 @@
+import { decodeObjectKey, planLoad } from './sources';
+
+describe('decodeObjectKey', () => {
+  test.each([
+    ['buildings/my+file.gpkg', 'buildings/my file.gpkg'],
+    ['roads/london%2Bessex%282024%29.gpkg', 'roads/london+essex(2024).gpkg'],
+    ['extracts/greater-london-latest.osm.pbf', 'extracts/greater-london-latest.osm.pbf'],
+  ])('decodes %s', (encoded, key) => {
+    expect(decodeObjectKey(encoded)).toBe(key);
+  });
+});
+
+describe('planLoad', () => {
+  test('loads every dataset from an OSM extract', () => {
+    const plan = planLoad('extracts/greater-london-latest.osm.pbf');
+    expect(plan.loader).toBe('osm2pgsql');
+    expect(plan.datasets).toEqual(['buildings', 'roads']);
+  });
+
+  test('loads the dataset named by the prefix with ogr2ogr', () => {
+    const plan = planLoad('roads/2024/london.gpkg');
+    expect(plan.loader).toBe('ogr2ogr');
+    expect(plan.datasets).toEqual(['roads']);
+    expect(plan.source('/tmp/london.gpkg')).toBe('/tmp/london.gpkg');
+  });
+
+  test('reads zipped shapefiles in place', () => {
+    expect(planLoad('buildings/london.zip').source('/tmp/london.zip')).toBe('/vsizip//tmp/london.zip');
+  });
+
+  test.each([
+    ['rivers/london.gpkg', /must be under one of buildings\/, roads\//],
+    ['london.gpkg', /must be under one of/],
+    ['buildings/london.csv', /not a supported format/],
+  ])('rejects %s', (key, message) => {
+    expect(() => planLoad(key)).toThrow(message);
+  });
+});
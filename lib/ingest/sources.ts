@@ -0,0 +1,48 @@
+import * as path from 'path';
+
+// Tables that can be loaded, with the column holding the feature type. Each
+// is created by the migrations with osm_id, name, <typeColumn> and geom.
+export const datasets: { [name: string]: { typeColumn: string } } = {
+  buildings: { typeColumn: 'building' },
+  roads: { typeColumn: 'highway' },
+};
+
+export interface LoadPlan {
+  loader: 'osm2pgsql' | 'ogr2ogr';
+  // Tables replaced by the load
+  datasets: string[];
+  // Path to pass to the loader, relative to the downloaded file
+  source: (file: string) => string;
+}
+
+// S3 events carry the object key URL-encoded, with spaces as +
+export function decodeObjectKey(encoded: string): string {
+  return decodeURIComponent(encoded.replace(/\+/g, ' '));
+}
+
+// Decide how to load an uploaded object from its key. OSM extracts (*.pbf) load
+// every dataset; other formats load the dataset named by their top-level
+// prefix, e.g. buildings/london.gpkg
+export function planLoad(key: string): LoadPlan {
+  const extension = key.toLowerCase().endsWith('.osm.pbf') ? '.pbf' : path.extname(key).toLowerCase();
+  if (extension === '.pbf') {
+    return { loader: 'osm2pgsql', datasets: Object.keys(datasets), source: (file) => file };
+  }
+
+  const dataset = key.split('/')[0];
+  if (!datasets[dataset] || !key.includes('/')) {
+    throw new Error(`${key} must be under one of ${Object.keys(datasets).map((name) => `${name}/`).join(', ')}`);
+  }
+
+  switch (extension) {
+    case '.gpkg':
+    case '.geojson':
+    case '.json':
+      return { loader: 'ogr2ogr', datasets: [dataset], source: (file) => file };
+    case '.zip':
+      // Zipped shapefiles are read in place by GDAL
+      return { loader: 'ogr2ogr', datasets: [dataset], source: (file) => `/vsizip/${file}` };
+    default:
+      throw new Error(`${key} is not a supported format (.pbf, .gpkg, .geojson, .json or a zipped shapefile)`);
+  }
+}
@@ -0,0 +1,129 @@
+import * as path from 'path';
+import * as dynamodb from 'aws-cdk-lib/aws-dynamodb';
+import * as ec2 from 'aws-cdk-lib/aws-ec2';
+import * as ecr_assets from 'aws-cdk-lib/aws-ecr-assets';
+import * as ecs from 'aws-cdk-lib/aws-ecs';
+import * as events from 'aws-cdk-lib/aws-events';
+import * as targets from 'aws-cdk-lib/aws-events-targets';
+import * as logs from 'aws-cdk-lib/aws-logs';
+import * as s3 from 'aws-cdk-lib/aws-s3';
+import { Construct } from 'constructs';
+import { Database } from './data';
+
+export interface IngestionProps {
+  network: {
+    vpc: ec2.IVpc;
+    computeSubnets: ec2.SubnetSelection;
+  };
+  cluster: ecs.ICluster;
+  database: Database;
+  schemaName: string;
+  cpu: number;
+  memoryLimitMiB: number;
+  ephemeralStorageGiB: number;
+  logRetention: logs.RetentionDays;
+}
+
+// Loads files uploaded to the landing bucket into the geo schema. Each upload
+// starts a Fargate task that runs osm2pgsql or ogr2ogr from lib/ingest.
+export class Ingestion extends Construct {
+  public readonly landingBucket: s3.Bucket;
+  public readonly auditTable: dynamodb.TableV2;
+  public readonly taskDefinition: ecs.FargateTaskDefinition;
+  public readonly securityGroup: ec2.SecurityGroup;
+  public readonly logGroup: logs.LogGroup;
+
+  constructor(scope: Construct, id: string, props: IngestionProps) {
+    super(scope, id);
+
+    this.landingBucket = new s3.Bucket(this, 'LandingBucket', {
+      blockPublicAccess: s3.BlockPublicAccess.BLOCK_ALL,
+      encryption: s3.BucketEncryption.S3_MANAGED,
+      enforceSSL: true,
+      eventBridgeEnabled: true,
+    });
+
+    // One item per load, keyed on the uploaded object and when the load started
+    this.auditTable = new dynamodb.TableV2(this, 'AuditTable', {
+      partitionKey: { name: 'sourceKey', type: dynamodb.AttributeType.STRING },
+      sortKey: { name: 'startedAt', type: dynamodb.AttributeType.STRING },
+    });
+
+    this.taskDefinition = new ecs.FargateTaskDefinition(this, 'TaskDef', {
+      cpu: props.cpu,
+      memoryLimitMiB: props.memoryLimitMiB,
+      ephemeralStorageGiB: props.ephemeralStorageGiB,
+      runtimePlatform: {
+        cpuArchitecture: ecs.CpuArchitecture.ARM64,
+      },
+    });
+
+    this.logGroup = new logs.LogGroup(this, 'LogGroup', {
+      retention: props.logRetention,
+    });
+
+    // Loads run as gis_admin, which owns the tables created by the migrations
+    const secret = props.database.gisadminSecret;
+    this.taskDefinition.addContainer('Ingest', {
+      /* eslint-disable no-undef */
+      image: ecs.ContainerImage.fromAsset(path.join(__dirname, 'ingest'), {
+        platform: ecr_assets.Platform.LINUX_ARM64,
+      }),
+      /* eslint-enable no-undef */
+      environment: {
+        SOURCE_BUCKET: this.landingBucket.bucketName,
+        SCHEMA_NAME: props.schemaName,
+        AUDIT_TABLE: this.auditTable.tableName,
+      },
+      secrets: {
+        PGHOST: ecs.Secret.fromSecretsManager(secret, 'host'),
+        PGPORT: ecs.Secret.fromSecretsManager(secret, 'port'),
+        PGDATABASE: ecs.Secret.fromSecretsManager(secret, 'dbname'),
+        PGUSER: ecs.Secret.fromSecretsManager(secret, 'username'),
+        PGPASSWORD: ecs.Secret.fromSecretsManager(secret, 'password'),
+      },
+      logging: new ecs.AwsLogDriver({ streamPrefix: 'ingest', logGroup: this.logGroup }),
+    });
+
+    this.landingBucket.grantRead(this.taskDefinition.taskRole);
+    this.auditTable.grantWriteData(this.taskDefinition.taskRole);
+
+    this.securityGroup = new ec2.SecurityGroup(this, 'SecurityGroup', {
+      vpc: props.network.vpc,
+      description: 'Used by the Ingestion Task',
+      allowAllOutbound: true,
+      disableInlineRules: true
+    });
+
+    props.database.databaseSecurityGroup.addIngressRule(
+      this.securityGroup,
+      ec2.Port.tcp(5432),
+      "Allow inbound to database from ingestion task"
+    );
+
+    new events.Rule(this, 'ObjectCreated', {
+      description: 'Load files uploaded to the landing bucket',
+      eventPattern: {
+        source: ['aws.s3'],
+        detailType: ['Object Created'],
+        detail: {
+          bucket: { name: [this.landingBucket.bucketName] },
+        },
+      },
+      targets: [
+        new targets.EcsTask({
+          cluster: props.cluster,
+          taskDefinition: this.taskDefinition,
+          launchType: ecs.LaunchType.FARGATE,
+          subnetSelection: props.network.computeSubnets,
+          securityGroups: [this.securityGroup],
+          containerOverrides: [{
+            containerName: 'Ingest',
+            // URL-encoded, decoded by the task
+            environment: [{ name: 'SOURCE_KEY', value: events.EventField.fromPath('$.detail.object.key') }],
+          }],
+        }),
+      ],
+    });
+  }
+}
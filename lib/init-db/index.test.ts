@@ -0,0 +1,151 @@
+import * as fs from 'fs';
+import { CloudFormationCustomResourceEvent, Context } from 'aws-lambda';
+import { SecretsManagerClient } from '@aws-sdk/client-secrets-manager';
+import { Client } from 'pg';
+import { handler } from './index';
+
+jest.mock('pg');
+jest.mock('@aws-sdk/client-secrets-manager', () => {
+  const send = jest.fn();
+  return {
+    SecretsManagerClient: jest.fn(() => ({ send })),
+    GetSecretValueCommand: jest.fn((input) => input),
+  };
+});
+
+const secrets: { [arn: string]: object } = {
+  'arn:master': { username: 'postgres', password: 'master-pass', host: 'db.internal', port: 5432 },
+  'arn:read': { username: 'read', password: 'read-pass', host: 'db.internal', port: 5432 },
+  'arn:gisadmin': { username: 'gis_admin', password: 'gisadmin-pass', host: 'db.internal', port: 5432 },
+  'arn:app': { username: 'write_clone', password: 'app-pass', host: 'db.internal', port: 5432 },
+};
+
+const resourceProperties = {
+  ServiceToken: 'arn:provider',
+  DatabaseName: 'gridwalk',
+  SchemaName: 'geo',
+  MasterSecretArn: 'arn:master',
+  ReadSecretArn: 'arn:read',
+  GisadminSecretArn: 'arn:gisadmin',
+  AppSecretArn: 'arn:app',
+};
+
+function event(requestType: 'Create' | 'Update' | 'Delete'): CloudFormationCustomResourceEvent {
+  return {
+    RequestType: requestType,
+    ServiceToken: 'arn:provider',
+    ResponseURL: 'https://example.com',
+    StackId: 'stack',
+    RequestId: 'request',
+    LogicalResourceId: 'DatabaseInitResource',
+    ResourceType: 'AWS::CloudFormation::CustomResource',
+    ResourceProperties: resourceProperties,
+    PhysicalResourceId: 'gridwalk',
+    OldResourceProperties: resourceProperties,
+  } as CloudFormationCustomResourceEvent;
+}
+
+function invoke(requestType: 'Create' | 'Update' | 'Delete') {
+  return handler(event(requestType), {} as Context, () => undefined);
+}
+
+describe('init-db handler', () => {
+  const ClientMock = Client as unknown as jest.Mock;
+  const send = new SecretsManagerClient().send as jest.Mock;
+  let queries: string[];
+  let existingRoles: string[];
+
+  beforeEach(() => {
+    queries = [];
+    existingRoles = [];
+    jest.spyOn(fs, 'readFileSync').mockReturnValue('ca-bundle');
+    send.mockReset().mockImplementation(async (input) => ({
+      SecretString: JSON.stringify(secrets[input.SecretId]),
+    }));
+    ClientMock.mockReset().mockImplementation(() => ({
+      connect: jest.fn(),
+      end: jest.fn(),
+      escapeIdentifier: (name: string) => `"${name.replace(/"/g, '""')}"`,
+      escapeLiteral: (value: string) => `'${value.replace(/'/g, "''")}'`,
+      query: jest.fn(async (sql: string, values?: string[]) => {
+        queries.push(sql);
+        const role = sql.includes('pg_roles') ? values?.[0] : undefined;
+        return { rows: role && existingRoles.includes(role) ? [{}] : [] };
+      }),
+    }));
+  });
+
+  test('creates the database, schema, roles and extensions on create', async () => {
+    const response = await invoke('Create');
+
+    expect(response).toEqual({ PhysicalResourceId: 'gridwalk' });
+    expect(queries).toContain('CREATE DATABASE "gridwalk";');
+    expect(queries).toContain('CREATE SCHEMA IF NOT EXISTS "geo";');
+    expect(queries).toContain(`CREATE USER "read" WITH ENCRYPTED PASSWORD 'read-pass';`);
+    expect(queries).toContain(`CREATE USER "gis_admin" WITH ENCRYPTED PASSWORD 'gisadmin-pass';`);
+    expect(queries).toContain('CREATE EXTENSION IF NOT EXISTS postgis;');
+    expect(ClientMock).toHaveBeenCalledWith(expect.objectContaining({
+      user: 'gis_admin',
+      database: 'gridwalk',
+      ssl: { ca: 'ca-bundle' },
+    }));
+  });
+
+  test('grants privileges to the base role when the secret holds a rotation clone', async () => {
+    await invoke('Create');
+
+    expect(queries).toContain(`CREATE USER "write_clone" WITH ENCRYPTED PASSWORD 'app-pass';`);
+    expect(queries).toContain('GRANT CONNECT, CREATE ON DATABASE "gridwalk" TO "write";');
+    expect(queries).toContain('ALTER DEFAULT PRIVILEGES FOR USER "write" GRANT SELECT ON TABLES TO "read";');
+  });
+
+  test('updates the passwords of existing roles on update', async () => {
+    existingRoles = ['read', 'gis_admin', 'write_clone'];
+
+    await invoke('Update');
+
+    expect(queries).toContain(`ALTER USER "read" WITH ENCRYPTED PASSWORD 'read-pass';`);
+    expect(queries.filter((sql) => sql.startsWith('CREATE USER'))).toEqual([]);
+  });
+
+  test('quotes role names and passwords', async () => {
+    const readSecret = { ...secrets['arn:read'], username: 'Read', password: "it's" };
+    send.mockImplementation(async (input) => ({
+      SecretString: JSON.stringify(input.SecretId === 'arn:read' ? readSecret : secrets[input.SecretId]),
+    }));
+
+    await invoke('Create');
+
+    expect(queries).toContain(`CREATE USER "Read" WITH ENCRYPTED PASSWORD 'it''s';`);
+    expect(queries).toContain('GRANT pg_read_all_data TO "Read";');
+  });
+
+  test('closes the connection when a statement fails', async () => {
+    const end = jest.fn();
+    ClientMock.mockImplementation(() => ({
+      connect: jest.fn(),
+      end: end,
+      escapeIdentifier: (name: string) => `"${name}"`,
+      query: jest.fn().mockRejectedValue(new Error('permission denied')),
+    }));
+
+    await expect(invoke('Create')).rejects.toThrow('permission denied');
+    expect(end).toHaveBeenCalledTimes(1);
+  });
+
+  test('leaves the database in place on delete', async () => {
+    const response = await invoke('Delete');
+
+    expect(response).toEqual({ PhysicalResourceId: 'gridwalk' });
+    expect(send).not.toHaveBeenCalled();
+    expect(ClientMock).not.toHaveBeenCalled();
+  });
+
+  test('fails the deploy when the database cannot be initialised', async () => {
+    ClientMock.mockImplementation(() => ({
+      connect: jest.fn().mockRejectedValue(new Error('connection refused')),
+    }));
+
+    await expect(invoke('Create')).rejects.toThrow('connection refused');
+  });
+});
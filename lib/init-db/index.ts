@@ -1,125 +1,116 @@
-import { Handler } from 'aws-lambda';
+import { CdkCustomResourceHandler } from 'aws-lambda';
 import { SecretsManagerClient, GetSecretValueCommand } from "@aws-sdk/client-secrets-manager";
 import { Client } from 'pg';
 import * as fs from 'fs';
 
+interface DatabaseSecret {
+  username: string;
+  password: string;
+  host: string;
+  port: number;
+}
 
-/* eslint-disable no-undef */
-const dbName = process.env.DB_NAME;
-const schemaName = process.env.SCHEMA_NAME; 
-const masterSecretName = process.env.MASTER_SECRET_NAME;
-const readSecretName = process.env.DB_READ_SECRET_NAME;
-const gisadminSecretName = process.env.DB_GISADMIN_SECRET_NAME;
-const appSecretName = process.env.DB_APP_SECRET_NAME;
-/* eslint-enable no-undef */
 const secretsManager = new SecretsManagerClient();
 
-// eslint-disable-next-line
-export const handler: Handler = async (event, context) => {
-//export async function handler(/*_event: any, _context: any*/) {
+// Retrieve credentials from AWS Secrets Manager (No caching between runs)
+async function getSecret(secretId: string): Promise<DatabaseSecret> {
+  const response = await secretsManager.send(new GetSecretValueCommand({ SecretId: secretId }));
+  return JSON.parse(response.SecretString!);
+}
+
+async function connect(secret: DatabaseSecret, database: string): Promise<Client> {
+  const client = new Client({
+    user: secret.username,
+    password: secret.password,
+    host: secret.host,
+    port: secret.port,
+    database: database,
+    ssl: {
+      ca: fs.readFileSync('./global-bundle.pem').toString(),
+    }
+  });
+  await client.connect();
+  return client;
+}
+
+// Multi-user rotation alternates a secret between <role> and <role>_clone,
+// where the clone is a member of <role>, so privileges are granted to <role>
+function roleName(secret: DatabaseSecret): string {
+  return secret.username.replace(/_clone$/, '');
+}
+
+// Create the user if it does not exist, otherwise bring its password in line with the secret
+async function upsertUser(client: Client, secret: DatabaseSecret) {
+  const userExistsResult = await client.query('SELECT 1 FROM pg_catalog.pg_roles WHERE rolname = $1;', [secret.username]);
+  const user = client.escapeIdentifier(secret.username);
+  const password = client.escapeLiteral(secret.password);
+  if (userExistsResult.rows.length === 0) {
+    await client.query(`CREATE USER ${user} WITH ENCRYPTED PASSWORD ${password};`);
+  } else {
+    await client.query(`ALTER USER ${user} WITH ENCRYPTED PASSWORD ${password};`);
+  }
+}
+
+async function initialise(props: Record<string, string>) {
+  const masterSecret = await getSecret(props.MasterSecretArn);
+  const readSecret = await getSecret(props.ReadSecretArn);
+  const gisadminSecret = await getSecret(props.GisadminSecretArn);
+  const appSecret = await getSecret(props.AppSecretArn);
+
+  // Connect to PostgreSQL database
+  const postgresClient = await connect(masterSecret, "postgres");
   try {
-    // Retrieve PostgreSQL credentials from AWS Secrets Manager (No caching between runs)
-    const getMasterSecretCommand = new GetSecretValueCommand({ SecretId: masterSecretName });
-    const getMasterSecretResponse = await secretsManager.send(getMasterSecretCommand);
-    const masterSecret = JSON.parse(getMasterSecretResponse.SecretString!);
-
-   // Retrieve db read-only credentials from AWS Secrets Manager
-    const getReadSecretCommand = new GetSecretValueCommand({ SecretId: readSecretName });
-    const getReadSecretResponse = await secretsManager.send(getReadSecretCommand);
-    const readSecret = JSON.parse(getReadSecretResponse.SecretString!);
-
-   // Retrieve db read-only credentials from AWS Secrets Manager
-    const getGisadminSecretCommand = new GetSecretValueCommand({ SecretId: gisadminSecretName });
-    const getGisadminSecretResponse = await secretsManager.send(getGisadminSecretCommand);
-    const gisadminSecret = JSON.parse(getGisadminSecretResponse.SecretString!);
-
-    // Retrieve db app credentials from AWS Secrets Manager
-    const getAppSecretCommand = new GetSecretValueCommand({ SecretId: appSecretName });
-    const getAppSecretResponse = await secretsManager.send(getAppSecretCommand);
-    const appSecret = JSON.parse(getAppSecretResponse.SecretString!);
-
-   // Connect to PostgreSQL database
-    const postgresClient = new Client({
-      user: masterSecret.username,
-      password: masterSecret.password,
-      host: masterSecret.host,
-      port: masterSecret.port,
-      database: "postgres",
-      ssl: {
-        ca: fs.readFileSync('./global-bundle.pem').toString(),
-      }
-    });
-    await postgresClient.connect()
-
-    const dbExistsResult = await postgresClient.query(`SELECT 1 FROM pg_database WHERE datname='${dbName}';`);
+    const dbExistsResult = await postgresClient.query('SELECT 1 FROM pg_database WHERE datname = $1;', [props.DatabaseName]);
     if (dbExistsResult.rows.length === 0) {
-      await postgresClient.query(`CREATE DATABASE ${dbName}`)
+      await postgresClient.query(`CREATE DATABASE ${postgresClient.escapeIdentifier(props.DatabaseName)};`);
     }
-    await postgresClient.end()
-
-    // Connect to new database
-    const dbClient = new Client({
-      user: masterSecret.username,
-      password: masterSecret.password,
-      host: masterSecret.host,
-      port: masterSecret.port,
-      database: dbName,
-      ssl: {
-        ca: fs.readFileSync('./global-bundle.pem').toString(),
-      }
-    });
-    await dbClient.connect()
+  } finally {
+    await postgresClient.end();
+  }
+
+  // Connect to new database
+  const dbClient = await connect(masterSecret, props.DatabaseName);
+  try {
+    const dbName = dbClient.escapeIdentifier(props.DatabaseName);
+    const schemaName = dbClient.escapeIdentifier(props.SchemaName);
+    const masterRole = dbClient.escapeIdentifier(masterSecret.username);
+    const readRole = dbClient.escapeIdentifier(roleName(readSecret));
+    const gisadminRole = dbClient.escapeIdentifier(roleName(gisadminSecret));
+    const appRole = dbClient.escapeIdentifier(roleName(appSecret));
+
     await dbClient.query(`CREATE SCHEMA IF NOT EXISTS ${schemaName};`);
     await dbClient.query(`ALTER DATABASE ${dbName} SET search_path TO ${schemaName}, public;`);
 
-    // Create db app user
-    const appUserExistsResult = await dbClient.query(`SELECT 1 FROM pg_catalog.pg_roles WHERE rolname='${appSecret.username}';`);
-    if (appUserExistsResult.rows.length === 0) {
-      // Create a user and grant write access to the database
-      await dbClient.query(`CREATE USER ${appSecret.username} WITH ENCRYPTED PASSWORD '${appSecret.password}';`);
-    }
-    await dbClient.query(`GRANT CONNECT, CREATE ON DATABASE ${dbName} TO ${appSecret.username};`);
+    // Create db app user and grant write access to the database
+    await upsertUser(dbClient, appSecret);
+    await dbClient.query(`GRANT CONNECT, CREATE ON DATABASE ${dbName} TO ${appRole};`);
     // Set default privileges for future tables in any schema
-    await dbClient.query(`ALTER DEFAULT PRIVILEGES GRANT ALL ON TABLES TO ${appSecret.username};`);
+    await dbClient.query(`ALTER DEFAULT PRIVILEGES GRANT ALL ON TABLES TO ${appRole};`);
 
     // Create read only user
-    const readUserExistsResult = await dbClient.query(`SELECT 1 FROM pg_catalog.pg_roles WHERE rolname='${readSecret.username}';`);
-    if (readUserExistsResult.rows.length === 0) {
-      // Create a user and grant read-only access to the database
-      await dbClient.query(`CREATE USER ${readSecret.username} WITH ENCRYPTED PASSWORD '${readSecret.password}';`);
-    }
-    await dbClient.query(`GRANT CONNECT ON DATABASE ${dbName} TO ${readSecret.username};`);
-    await dbClient.query(`GRANT pg_read_all_data TO ${readSecret.username};`);
-
-   // Create gis admin user
-    const gisadminUserExistsResult = await dbClient.query(`SELECT 1 FROM pg_catalog.pg_roles WHERE rolname='${gisadminSecret.username}';`);
-    if (gisadminUserExistsResult.rows.length === 0) {
-      await dbClient.query(`CREATE USER ${gisadminSecret.username} WITH ENCRYPTED PASSWORD '${gisadminSecret.password}';`);
-    }
-    await dbClient.query(`GRANT CONNECT ON DATABASE ${dbName} TO ${gisadminSecret.username};`);
-    await dbClient.query(`GRANT USAGE ON SCHEMA public TO ${gisadminSecret.username};`);
-    await dbClient.query(`GRANT pg_read_all_data, pg_write_all_data TO ${gisadminSecret.username};`);
-    await dbClient.query(`GRANT rds_superuser TO ${gisadminSecret.username};`);
-    await dbClient.query(`GRANT ALL PRIVILEGES ON DATABASE ${dbName} TO ${gisadminSecret.username};`);
+    await upsertUser(dbClient, readSecret);
+    await dbClient.query(`GRANT CONNECT ON DATABASE ${dbName} TO ${readRole};`);
+    await dbClient.query(`GRANT pg_read_all_data TO ${readRole};`);
+
+    // Create gis admin user
+    await upsertUser(dbClient, gisadminSecret);
+    await dbClient.query(`GRANT CONNECT ON DATABASE ${dbName} TO ${gisadminRole};`);
+    await dbClient.query(`GRANT USAGE ON SCHEMA public TO ${gisadminRole};`);
+    await dbClient.query(`GRANT pg_read_all_data, pg_write_all_data TO ${gisadminRole};`);
+    await dbClient.query(`GRANT rds_superuser TO ${gisadminRole};`);
+    await dbClient.query(`GRANT ALL PRIVILEGES ON DATABASE ${dbName} TO ${gisadminRole};`);
 
     // Allow root user to grant access to tables created using app user
-    await dbClient.query(`GRANT ${appSecret.username} TO ${masterSecret.username};`);
-    await dbClient.query(`ALTER DEFAULT PRIVILEGES FOR USER ${appSecret.username} GRANT SELECT ON TABLES TO ${readSecret.username};`);
-
-    dbClient.end();
-
-   // Connect to PostgreSQL database using GIS Admin role
-    const gisadminClient = new Client({
-      user: gisadminSecret.username,
-      password: gisadminSecret.password,
-      host: gisadminSecret.host,
-      port: gisadminSecret.port,
-      database: dbName,
-      ssl: {
-        ca: fs.readFileSync('./global-bundle.pem').toString(),
-      }
-    });
-    await gisadminClient.connect()
+    await dbClient.query(`GRANT ${appRole} TO ${masterRole};`);
+    await dbClient.query(`ALTER DEFAULT PRIVILEGES FOR USER ${appRole} GRANT SELECT ON TABLES TO ${readRole};`);
+  } finally {
+    await dbClient.end();
+  }
+
+  // Connect to PostgreSQL database using GIS Admin role
+  const gisadminClient = await connect(gisadminSecret, props.DatabaseName);
+  try {
+    const gisadminRole = gisadminClient.escapeIdentifier(roleName(gisadminSecret));
 
     await gisadminClient.query(`CREATE EXTENSION IF NOT EXISTS postgis;`);
     await gisadminClient.query(`CREATE EXTENSION IF NOT EXISTS postgis_raster;`);
@@ -127,7 +118,7 @@ export const handler: Handler = async (event, context) => {
     await gisadminClient.query(`CREATE EXTENSION IF NOT EXISTS postgis_topology;`);
     await gisadminClient.query(`CREATE EXTENSION IF NOT EXISTS hstore;`);
 
-    await gisadminClient.query(`ALTER SCHEMA topology OWNER TO ${gisadminSecret.username};`);
+    await gisadminClient.query(`ALTER SCHEMA topology OWNER TO ${gisadminRole};`);
 
     await gisadminClient.query('CREATE OR REPLACE FUNCTION exec(text) returns text language plpgsql volatile AS $f$ BEGIN EXECUTE $1; RETURN $1; END; $f$;');
 
@@ -138,20 +129,27 @@ export const handler: Handler = async (event, context) => {
       WHERE nspname in ('topology') AND
       relkind IN ('r','S','v') ORDER BY relkind = 'S')
     s;`);
+  } finally {
+    await gisadminClient.end();
+  }
+}
 
-    gisadminClient.end();
-
-
-    return {
-      statusCode: 200,
-      body: 'Schema and user created successfully',
-    };
-  } catch (error) {
-    // eslint-disable-next-line no-undef
-    console.error('Error:', error);
-    return {
-      statusCode: 500,
-      body: 'Error creating schema and user',
-    };
+// Invoked by the custom resource provider. Errors are left to propagate so
+// that the provider reports FAILED to CloudFormation and the deploy rolls back.
+export const handler: CdkCustomResourceHandler = async (event) => {
+  const physicalResourceId = event.ResourceProperties.DatabaseName;
+
+  switch (event.RequestType) {
+    case 'Create':
+    case 'Update':
+      await initialise(event.ResourceProperties);
+      break;
+    case 'Delete':
+      // The database, schema and roles are left in place; they are removed with the instance
+      break;
   }
+
+  return {
+    PhysicalResourceId: physicalResourceId,
+  };
 }
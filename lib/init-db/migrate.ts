@@ -0,0 +1,108 @@
+import { CdkCustomResourceHandler } from 'aws-lambda';
+import { SecretsManagerClient, GetSecretValueCommand } from "@aws-sdk/client-secrets-manager";
+import { Client } from 'pg';
+import * as crypto from 'crypto';
+import * as fs from 'fs';
+import * as path from 'path';
+
+const migrationsDir = './sql';
+// Arbitrary key used to stop two deploys applying migrations at the same time
+const migrationLockId = 72317;
+
+interface Migration {
+  version: string;
+  checksum: string;
+  sql: string;
+}
+
+const secretsManager = new SecretsManagerClient();
+
+function loadMigrations(): Migration[] {
+  return fs.readdirSync(migrationsDir)
+    .filter((file) => file.endsWith('.sql'))
+    .sort()
+    .map((file) => {
+      const sql = fs.readFileSync(path.join(migrationsDir, file)).toString();
+      return {
+        version: file,
+        checksum: crypto.createHash('sha256').update(sql).digest('hex'),
+        sql: sql,
+      };
+    });
+}
+
+async function migrate(props: Record<string, string>): Promise<string[]> {
+  const response = await secretsManager.send(new GetSecretValueCommand({ SecretId: props.SecretArn }));
+  const secret = JSON.parse(response.SecretString!);
+
+  const client = new Client({
+    user: secret.username,
+    password: secret.password,
+    host: secret.host,
+    port: secret.port,
+    database: props.DatabaseName,
+    ssl: {
+      ca: fs.readFileSync('./global-bundle.pem').toString(),
+    }
+  });
+  await client.connect();
+
+  try {
+    // Waiting for the lock, index builds and view rebuilds all outlast the parameter
+    // group's 60 second statement_timeout
+    await client.query('SET statement_timeout = 0;');
+    await client.query(`SELECT pg_advisory_lock(${migrationLockId});`);
+    await client.query(`SET search_path TO ${props.SchemaName}, public;`);
+    // Rotation may have switched the secret to <role>_clone; objects should still be owned by <role>
+    await client.query(`SET ROLE ${secret.username.replace(/_clone$/, '')};`);
+    await client.query(`CREATE TABLE IF NOT EXISTS schema_migrations (
+      version text PRIMARY KEY,
+      checksum text NOT NULL,
+      applied_at timestamptz NOT NULL DEFAULT now()
+    );`);
+
+    const appliedResult = await client.query('SELECT version, checksum FROM schema_migrations;');
+    const applied = new Map<string, string>(appliedResult.rows.map((row) => [row.version, row.checksum]));
+    const migrations = loadMigrations();
+
+    // Refuse to continue if an applied migration has since been edited
+    const modified = migrations.filter((m) => applied.has(m.version) && applied.get(m.version) !== m.checksum);
+    if (modified.length > 0) {
+      throw new Error(`Applied migrations have been modified: ${modified.map((m) => m.version).join(', ')}. Add a new migration instead.`);
+    }
+
+    const pending = migrations.filter((m) => !applied.has(m.version));
+    for (const migration of pending) {
+      // eslint-disable-next-line no-undef
+      console.log(`Applying migration ${migration.version}`);
+      await client.query('BEGIN;');
+      try {
+        await client.query(migration.sql);
+        await client.query('INSERT INTO schema_migrations (version, checksum) VALUES ($1, $2);', [migration.version, migration.checksum]);
+        await client.query('COMMIT;');
+      } catch (error) {
+        await client.query('ROLLBACK;');
+        throw new Error(`Migration ${migration.version} failed: ${error}`);
+      }
+    }
+    return pending.map((m) => m.version);
+  } finally {
+    await client.end();
+  }
+}
+
+// Invoked by the custom resource provider. Errors are left to propagate so
+// that the provider reports FAILED to CloudFormation and the deploy rolls back.
+export const handler: CdkCustomResourceHandler = async (event) => {
+  let applied: string[] = [];
+  if (event.RequestType !== 'Delete') {
+    applied = await migrate(event.ResourceProperties);
+  }
+
+  return {
+    PhysicalResourceId: `${event.ResourceProperties.DatabaseName}-migrations`,
+    Data: {
+      Applied: applied.join(','),
+    },
+  };
+}
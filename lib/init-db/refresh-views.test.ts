@@ -0,0 +1,109 @@
+import * as fs from 'fs';
+import { Context } from 'aws-lambda';
+import { EventBridgeClient } from '@aws-sdk/client-eventbridge';
+import { SecretsManagerClient } from '@aws-sdk/client-secrets-manager';
+import { Client } from 'pg';
+import { handler, refreshOrder } from './refresh-views';
+
+jest.mock('pg');
+jest.mock('@aws-sdk/client-secrets-manager', () => {
+  const send = jest.fn();
+  return {
+    SecretsManagerClient: jest.fn(() => ({ send })),
+    GetSecretValueCommand: jest.fn((input) => input),
+  };
+});
+jest.mock('@aws-sdk/client-eventbridge', () => {
+  const send = jest.fn();
+  return {
+    EventBridgeClient: jest.fn(() => ({ send })),
+    PutEventsCommand: jest.fn((input) => input),
+  };
+});
+
+// roads_simplified selects from roads_all, which selects from the roads table
+const dependencies = [
+  { view: 'roads_simplified', source: 'roads_all' },
+  { view: 'roads_all', source: null },
+  { view: 'buildings_all', source: null },
+];
+
+describe('refreshOrder', () => {
+  test('refreshes views after the views they select from', () => {
+    expect(refreshOrder(['roads_simplified', 'buildings_all', 'roads_all'], dependencies as never))
+      .toEqual(['buildings_all', 'roads_all', 'roads_simplified']);
+  });
+
+  test('rejects views that do not exist', () => {
+    expect(() => refreshOrder(['roads_all', 'rivers'], dependencies as never)).toThrow('Unknown materialized views: rivers');
+  });
+});
+
+describe('refresh-views handler', () => {
+  const ClientMock = Client as unknown as jest.Mock;
+  const putEvents = new EventBridgeClient().send as jest.Mock;
+  let queries: string[];
+
+  function invoke(views: string[]) {
+    return handler({ views: views }, {} as Context, () => undefined);
+  }
+
+  beforeEach(() => {
+    queries = [];
+    process.env.SCHEMA_NAME = 'geo';
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+    jest.spyOn(fs, 'readFileSync').mockReturnValue('ca-bundle');
+    (new SecretsManagerClient().send as jest.Mock).mockReset().mockResolvedValue({
+      SecretString: JSON.stringify({ username: 'gis_admin_clone', password: 'pass', host: 'db.internal', port: 5432 }),
+    });
+    putEvents.mockReset();
+    ClientMock.mockReset().mockImplementation(() => ({
+      connect: jest.fn(),
+      end: jest.fn(),
+      escapeIdentifier: (name: string) => `"${name}"`,
+      query: jest.fn(async (sql: string) => {
+        queries.push(sql);
+        if (sql.includes('pg_rewrite')) {
+          return { rows: dependencies };
+        }
+        return { rows: [{ rows: '42' }] };
+      }),
+    }));
+  });
+
+  test('refreshes each view concurrently as the owning role', async () => {
+    await invoke(['roads_simplified', 'roads_all']);
+
+    expect(queries).toContain('SET ROLE gis_admin;');
+    expect(queries).toContain('SET statement_timeout = 0;');
+    expect(queries.filter((sql) => sql.startsWith('REFRESH'))).toEqual([
+      'REFRESH MATERIALIZED VIEW CONCURRENTLY "roads_all";',
+      'REFRESH MATERIALIZED VIEW CONCURRENTLY "roads_simplified";',
+    ]);
+    expect(putEvents).toHaveBeenCalledWith(expect.objectContaining({
+      Entries: [expect.objectContaining({ Detail: JSON.stringify({ views: ['roads_all', 'roads_simplified'] }) })],
+    }));
+  });
+
+  test('still invalidates the views that were refreshed before a failure', async () => {
+    ClientMock.mockImplementation(() => ({
+      connect: jest.fn(),
+      end: jest.fn(),
+      escapeIdentifier: (name: string) => `"${name}"`,
+      query: jest.fn(async (sql: string) => {
+        if (sql.includes('pg_rewrite')) {
+          return { rows: dependencies };
+        }
+        if (sql.includes('"roads_simplified"')) {
+          throw new Error('could not create unique index');
+        }
+        return { rows: [{ rows: '42' }] };
+      }),
+    }));
+
+    await expect(invoke(['roads_simplified', 'roads_all'])).rejects.toThrow('could not create unique index');
+    expect(putEvents).toHaveBeenCalledWith(expect.objectContaining({
+      Entries: [expect.objectContaining({ Detail: JSON.stringify({ views: ['roads_all'] }) })],
+    }));
+  });
+});
@@ -0,0 +1,135 @@
+import { Handler } from 'aws-lambda';
+import { EventBridgeClient, PutEventsCommand } from "@aws-sdk/client-eventbridge";
+import { SecretsManagerClient, GetSecretValueCommand } from "@aws-sdk/client-secrets-manager";
+import { Client } from 'pg';
+import * as fs from 'fs';
+
+interface RefreshEvent {
+  // Materialized views to refresh; they are reordered so that a view is
+  // refreshed after any view it selects from
+  views: string[];
+}
+
+interface Dependency {
+  view: string;
+  source: string;
+}
+
+const secretsManager = new SecretsManagerClient();
+const eventBridge = new EventBridgeClient();
+
+// Materialized views in the schema and the materialized views they select from
+const dependencyQuery = `
+  SELECT DISTINCT view.relname AS view, source.relname AS source
+  FROM pg_class view
+  JOIN pg_namespace ns ON ns.oid = view.relnamespace
+  LEFT JOIN pg_rewrite rule ON rule.ev_class = view.oid
+  LEFT JOIN pg_depend dep ON dep.objid = rule.oid AND dep.classid = 'pg_rewrite'::regclass
+  LEFT JOIN pg_class source ON source.oid = dep.refobjid AND source.relkind = 'm' AND source.oid <> view.oid
+  WHERE view.relkind = 'm' AND ns.nspname = $1;`;
+
+// Order the requested views so that every view comes after the views it depends
+// on, including through views that are not being refreshed in this run
+export function refreshOrder(views: string[], dependencies: Dependency[]): string[] {
+  const known = new Set(dependencies.map((d) => d.view));
+  const unknown = views.filter((view) => !known.has(view));
+  if (unknown.length > 0) {
+    throw new Error(`Unknown materialized views: ${unknown.join(', ')}`);
+  }
+
+  const ordered: string[] = [];
+  const visiting = new Set<string>();
+  const visit = (view: string) => {
+    if (ordered.includes(view)) {
+      return;
+    }
+    if (visiting.has(view)) {
+      throw new Error(`Materialized view ${view} depends on itself`);
+    }
+    visiting.add(view);
+    for (const dependency of dependencies.filter((d) => d.view === view && d.source)) {
+      visit(dependency.source);
+    }
+    visiting.delete(view);
+    ordered.push(view);
+  };
+  [...known].sort().forEach(visit);
+
+  return ordered.filter((view) => views.includes(view));
+}
+
+// Embedded metric format; CloudWatch extracts the metrics from the log line
+function putMetrics(view: string, durationMs: number, rowCount: number) {
+  // eslint-disable-next-line no-undef
+  console.log(JSON.stringify({
+    _aws: {
+      Timestamp: Date.now(),
+      CloudWatchMetrics: [{
+        Namespace: 'Gridwalk/MaterializedViews',
+        Dimensions: [['View']],
+        Metrics: [
+          { Name: 'RefreshDuration', Unit: 'Milliseconds' },
+          { Name: 'RowCount', Unit: 'Count' },
+        ],
+      }],
+    },
+    View: view,
+    RefreshDuration: durationMs,
+    RowCount: rowCount,
+  }));
+}
+
+// Invoked on a schedule per group of views. Views are refreshed concurrently so
+// that tiles keep being served from the old data while the refresh runs.
+export const handler: Handler<RefreshEvent> = async (event) => {
+  const response = await secretsManager.send(new GetSecretValueCommand({ SecretId: process.env.SECRET_ARN }));
+  const secret = JSON.parse(response.SecretString!);
+
+  const client = new Client({
+    user: secret.username,
+    password: secret.password,
+    host: secret.host,
+    port: secret.port,
+    database: process.env.DATABASE_NAME,
+    ssl: {
+      ca: fs.readFileSync('./global-bundle.pem').toString(),
+    }
+  });
+  await client.connect();
+
+  const refreshed: string[] = [];
+  try {
+    await client.query(`SET search_path TO ${process.env.SCHEMA_NAME}, public;`);
+    // The parameter group's 60 second statement_timeout is meant for tile queries; a refresh
+    // runs for as long as the function lets it
+    await client.query('SET statement_timeout = 0;');
+    // Only the owner can refresh a view; rotation may have switched the secret to <role>_clone
+    await client.query(`SET ROLE ${secret.username.replace(/_clone$/, '')};`);
+
+    const dependencies = await client.query<Dependency>(dependencyQuery, [process.env.SCHEMA_NAME]);
+    for (const view of refreshOrder(event.views, dependencies.rows)) {
+      const started = Date.now();
+      await client.query(`REFRESH MATERIALIZED VIEW CONCURRENTLY ${client.escapeIdentifier(view)};`);
+      const duration = Date.now() - started;
+
+      const count = await client.query(`SELECT count(*)::bigint AS rows FROM ${client.escapeIdentifier(view)};`);
+      putMetrics(view, duration, Number(count.rows[0].rows));
+      refreshed.push(view);
+    }
+  } finally {
+    await client.end();
+
+    // Let the tile cache drop tiles built from the old data, even if a later view failed
+    if (refreshed.length > 0) {
+      await eventBridge.send(new PutEventsCommand({
+        Entries: [{
+          Source: process.env.EVENT_SOURCE,
+          DetailType: process.env.EVENT_DETAIL_TYPE,
+          Detail: JSON.stringify({ views: refreshed }),
+        }],
+      }));
+    }
+  }
+
+  return { refreshed: refreshed };
+}
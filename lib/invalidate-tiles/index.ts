@@ -0,0 +1,27 @@
+import { EventBridgeHandler } from 'aws-lambda';
+import { CloudFrontClient, CreateInvalidationCommand } from "@aws-sdk/client-cloudfront";
+
+interface ViewsRefreshedDetail {
+  // Paths to invalidate; every tile is invalidated when omitted
+  paths?: string[];
+}
+
+const cloudfront = new CloudFrontClient();
+
+// Invalidates cached tiles once the materialized views behind them have been
+// refreshed. The event id is used as the caller reference so that a retried
+// delivery of the same event does not create a second invalidation.
+export const handler: EventBridgeHandler<'Materialized Views Refreshed', ViewsRefreshedDetail, void> = async (event) => {
+  const paths = event.detail.paths?.length ? event.detail.paths : ['/*'];
+
+  await cloudfront.send(new CreateInvalidationCommand({
+    DistributionId: process.env.DISTRIBUTION_ID,
+    InvalidationBatch: {
+      CallerReference: event.id,
+      Paths: {
+        Quantity: paths.length,
+        Items: paths,
+      },
+    },
+  }));
+}
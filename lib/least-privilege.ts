@@ -0,0 +1,81 @@
+import * as cdk from 'aws-cdk-lib';
+import * as ecs from 'aws-cdk-lib/aws-ecs';
+import * as iam from 'aws-cdk-lib/aws-iam';
+import { IConstruct } from 'constructs';
+
+// Actions IAM only accepts on "*"; ECS Exec needs them in every task role
+const unscopableActions = [
+  'ssmmessages:CreateControlChannel',
+  'ssmmessages:CreateDataChannel',
+  'ssmmessages:OpenControlChannel',
+  'ssmmessages:OpenDataChannel',
+  'logs:DescribeLogGroups',
+];
+
+// Wildcards that stay within one concrete resource
+const scopedWildcards = [
+  // Objects in one bucket
+  /^(arn:[^:]+:s3:::[^/*]+|\{AWS\.S3\.Bucket\})\/\*$/,
+  // Streams in one log group
+  /:log-group:[^:*]+:\*$/,
+];
+
+// Fails synth when a task role's policy grants a wildcard resource, such as
+// table/* or an index/* from grantReadWriteData, or an action such as dynamodb:*.
+// Task roles are the credentials of the long running services, so they should
+// name every resource they use.
+export class TaskRoleLeastPrivilege implements cdk.IAspect {
+  public visit(node: IConstruct): void {
+    if (!(node instanceof ecs.TaskDefinition)) {
+      return;
+    }
+    const policy = node.taskRole.node.tryFindChild('DefaultPolicy');
+    if (!(policy instanceof iam.Policy)) {
+      return;
+    }
+
+    const stack = cdk.Stack.of(node);
+    const resourceTypes = new Map<string, string>();
+    for (const child of stack.node.findAll()) {
+      if (child instanceof cdk.CfnResource) {
+        resourceTypes.set(stack.resolve(child.logicalId), child.cfnResourceType.replace(/::/g, '.'));
+      }
+    }
+
+    const statements: { Action: string | string[]; Resource: unknown }[] = stack.resolve(policy.document.toJSON())?.Statement ?? [];
+    for (const statement of statements) {
+      const actions = [statement.Action].flat();
+      for (const action of actions.filter((action) => action === '*' || action.endsWith(':*'))) {
+        cdk.Annotations.of(node).addError(`Task role grants ${action}; list the actions the service uses`);
+      }
+
+      for (const resource of [statement.Resource].flat().map((resource) => render(resource, resourceTypes))) {
+        if (resource === '*' && actions.every((action) => unscopableActions.includes(action))) {
+          continue;
+        }
+        if (resource.includes('*') && !scopedWildcards.some((pattern) => pattern.test(resource))) {
+          cdk.Annotations.of(node).addError(`Task role grants ${actions.join(', ')} on ${resource}; name the resources the service uses`);
+        }
+      }
+    }
+  }
+}
+
+// Resolved ARN as a string, with references to resources in the stack shown as their type, e.g. {AWS.S3.Bucket}
+function render(value: unknown, resourceTypes: Map<string, string>): string {
+  if (typeof value === 'string') {
+    return value;
+  }
+  const intrinsic = value as { [name: string]: unknown };
+  if (Array.isArray(intrinsic['Fn::GetAtt'])) {
+    return `{${resourceTypes.get(intrinsic['Fn::GetAtt'][0]) ?? 'unknown'}}`;
+  }
+  if (typeof intrinsic.Ref === 'string') {
+    return intrinsic.Ref.startsWith('AWS::') ? intrinsic.Ref : `{${resourceTypes.get(intrinsic.Ref) ?? 'unknown'}}`;
+  }
+  if (Array.isArray(intrinsic['Fn::Join'])) {
+    const [separator, parts] = intrinsic['Fn::Join'] as [string, unknown[]];
+    return parts.map((part) => render(part, resourceTypes)).join(separator);
+  }
+  return '{unknown}';
+}
@@ -0,0 +1,118 @@
+import * as cdk from 'aws-cdk-lib';
+import * as cloudwatch from 'aws-cdk-lib/aws-cloudwatch';
+import * as logs from 'aws-cdk-lib/aws-logs';
+import { Construct } from 'constructs';
+import { WebService } from './web-service';
+
+export interface LoggingProps {
+  services: { [name: string]: WebService };
+  // Writes one JSON line per request with its status; the other services' responses are
+  // only counted by the load balancer
+  tileServer: WebService;
+  // Exported from RDS; slow statements are logged by log_min_duration_statement
+  postgresLogGroup: logs.ILogGroup;
+  ingestionLogGroup: logs.ILogGroup;
+}
+
+const namespace = 'Gridwalk/Logs';
+
+// Metrics from log lines that have no CloudWatch metric of their own, and saved
+// Logs Insights queries for common investigations
+export class Logging extends Construct {
+  // Keyed by the label shown on the dashboard
+  public readonly metrics: { [label: string]: cloudwatch.Metric } = {};
+
+  constructor(scope: Construct, id: string, props: LoggingProps) {
+    super(scope, id);
+    const prefix = cdk.Stack.of(this).stackName;
+
+    // Statements calling a *_mvt function that ran longer than log_min_duration_statement
+    const slowTileQueries = new logs.MetricFilter(this, 'SlowTileQueries', {
+      logGroup: props.postgresLogGroup,
+      filterPattern: logs.FilterPattern.allTerms('duration:', '_mvt'),
+      metricNamespace: namespace,
+      metricName: 'SlowTileQueries',
+      metricValue: '1',
+      defaultValue: 0,
+    });
+    this.metrics['slow tile queries'] = slowTileQueries.metric({ statistic: 'Sum' });
+
+    // Failed tile renders, including those CloudFront then serves from pre-rendered tiles
+    const tiles5xx = new logs.MetricFilter(this, 'TilesHttp5xx', {
+      logGroup: props.tileServer.logGroup,
+      filterPattern: logs.FilterPattern.numberValue('$.status', '>=', 500),
+      metricNamespace: namespace,
+      metricName: 'TilesHttp5xx',
+      metricValue: '1',
+      defaultValue: 0,
+    });
+    this.metrics['Tiles 5xx'] = tiles5xx.metric({ statistic: 'Sum' });
+
+    const serviceLogGroups = Object.values(props.services).map((service) => service.logGroup);
+
+    new logs.QueryDefinition(this, 'SlowTileQueriesQuery', {
+      queryDefinitionName: `${prefix}/Slowest tile queries`,
+      logGroups: [props.postgresLogGroup],
+      queryString: new logs.QueryString({
+        fields: ['@timestamp', '@message'],
+        filterStatements: ['@message like /duration:/', '@message like /_mvt/'],
+        parseStatements: ['@message /duration: (?<durationMs>[0-9.]+) ms/'],
+        sort: 'durationMs desc',
+        limit: 100,
+      }),
+    });
+
+    new logs.QueryDefinition(this, 'TileQueriesByLayerQuery', {
+      queryDefinitionName: `${prefix}/Slow tile queries by layer`,
+      logGroups: [props.postgresLogGroup],
+      queryString: new logs.QueryString({
+        parseStatements: ['@message /duration: (?<durationMs>[0-9.]+) ms.*?(?<layer>[a-z_]+)_mvt/'],
+        filterStatements: ['ispresent(layer)'],
+        stats: 'count(*) as queries, avg(durationMs) as average, pct(durationMs, 95) as p95 by layer',
+        sort: 'p95 desc',
+      }),
+    });
+
+    new logs.QueryDefinition(this, 'ConnectionsQuery', {
+      queryDefinitionName: `${prefix}/Database connections by user`,
+      logGroups: [props.postgresLogGroup],
+      queryString: new logs.QueryString({
+        filterStatements: ['@message like /connection authorized/'],
+        parseStatements: ['@message /user=(?<user>\\S+)/'],
+        stats: 'count(*) as connections by user, bin(1h)',
+      }),
+    });
+
+    new logs.QueryDefinition(this, 'Http5xxQuery', {
+      queryDefinitionName: `${prefix}/Tile server 5xx responses`,
+      logGroups: [props.tileServer.logGroup],
+      queryString: new logs.QueryString({
+        fields: ['@timestamp', '@log', 'method', 'path', 'status', 'durationMs'],
+        filterStatements: ['status >= 500'],
+        sort: '@timestamp desc',
+        limit: 200,
+      }),
+    });
+
+    new logs.QueryDefinition(this, 'ErrorsQuery', {
+      queryDefinitionName: `${prefix}/Container errors`,
+      logGroups: [...serviceLogGroups, props.ingestionLogGroup],
+      queryString: new logs.QueryString({
+        fields: ['@timestamp', '@log', '@message'],
+        filterStatements: ['@message like /(?i)(error|exception|panic)/'],
+        sort: '@timestamp desc',
+        limit: 200,
+      }),
+    });
+
+    new logs.QueryDefinition(this, 'IngestionQuery', {
+      queryDefinitionName: `${prefix}/Ingestion results`,
+      logGroups: [props.ingestionLogGroup],
+      queryString: new logs.QueryString({
+        fields: ['@timestamp', '@logStream', '@message'],
+        filterStatements: ['@message like /^(Loaded|Failed to load)/'],
+        sort: '@timestamp desc',
+      }),
+    });
+  }
+}
@@ -0,0 +1,97 @@
+import * as crypto from 'crypto';
+import * as fs from 'fs';
+import * as path from 'path';
+import * as cdk from 'aws-cdk-lib';
+import * as ec2 from 'aws-cdk-lib/aws-ec2';
+import * as lambda from 'aws-cdk-lib/aws-lambda';
+import * as nodejs from 'aws-cdk-lib/aws-lambda-nodejs';
+import * as cr from 'aws-cdk-lib/custom-resources';
+import { Construct } from 'constructs';
+import { Database } from './data';
+
+export interface DatabaseMigrationsProps {
+  network: {
+    vpc: ec2.IVpc;
+    computeSubnets: ec2.SubnetSelection;
+  };
+  database: Database;
+  databaseName: string;
+  schemaName: string;
+}
+
+// Applies every file in sql/ that has not yet been recorded in schema_migrations
+export class DatabaseMigrations extends Construct {
+  public readonly migrationsResource: cdk.CustomResource;
+
+  constructor(scope: Construct, id: string, props: DatabaseMigrationsProps) {
+    super(scope, id);
+
+    /* eslint-disable no-undef */
+    const projectRoot = path.join(__dirname, '..');
+    const migrationsDir = path.join(projectRoot, 'sql');
+    /* eslint-enable no-undef */
+
+    // Hash the migrations at synth time so that any change to sql/ triggers an update
+    const migrationsHash = crypto.createHash('sha256');
+    for (const file of fs.readdirSync(migrationsDir).filter((file) => file.endsWith('.sql')).sort()) {
+      migrationsHash.update(file);
+      migrationsHash.update(fs.readFileSync(path.join(migrationsDir, file)));
+    }
+
+    const migrationsSecurityGroup = new ec2.SecurityGroup(this, 'MigrationsSecurityGroup', {
+      vpc: props.network.vpc,
+      description: 'Used by the Database Migrations Lambda Function',
+      allowAllOutbound: true,
+      disableInlineRules: true
+    });
+
+    const migrationsFunction = new nodejs.NodejsFunction(this, 'DatabaseMigrations', {
+      runtime: lambda.Runtime.NODEJS_20_X,
+      architecture: lambda.Architecture.ARM_64,
+      timeout: cdk.Duration.minutes(15),
+      projectRoot: projectRoot,
+      depsLockFilePath: path.join(projectRoot, 'lib', 'init-db', 'package-lock.json'),
+      entry: path.join(projectRoot, 'lib', 'init-db', 'migrate.ts'),
+      bundling: {
+        nodeModules: ['pg'],
+        commandHooks: {
+          afterBundling: (inputDir: string, outputDir: string): string[] => [
+            `cp ${inputDir}/lib/init-db/global-bundle.pem ${outputDir}/global-bundle.pem`,
+            `cp -r ${inputDir}/sql ${outputDir}/sql`,
+          ],
+          // eslint-disable-next-line
+          beforeBundling: (inputDir: string, outputDir: string): string[] => [],
+          // eslint-disable-next-line
+          beforeInstall: (inputDir: string, outputDir: string): string[] => [],
+        },
+      },
+      vpc: props.network.vpc,
+      vpcSubnets: props.network.computeSubnets,
+      securityGroups: [migrationsSecurityGroup]
+    });
+
+    // Migrations run as gis_admin so that it owns the views and functions they create
+    props.database.gisadminSecret.grantRead(migrationsFunction);
+
+    props.database.databaseSecurityGroup.addIngressRule(
+      migrationsSecurityGroup,
+      ec2.Port.tcp(5432),
+      "Allow inbound to database from migrations function"
+    );
+
+    const migrationsProvider = new cr.Provider(this, 'DatabaseMigrationsProvider', {
+      onEventHandler: migrationsFunction,
+    });
+
+    this.migrationsResource = new cdk.CustomResource(this, 'DatabaseMigrationsResource', {
+      serviceToken: migrationsProvider.serviceToken,
+      properties: {
+        DatabaseName: props.databaseName,
+        SchemaName: props.schemaName,
+        SecretArn: props.database.gisadminSecret.secretArn,
+        MigrationsHash: migrationsHash.digest('hex'),
+      },
+    });
+    this.migrationsResource.node.addDependency(props.database.initResource, props.database.databaseSecurityGroup);
+  }
+}
@@ -0,0 +1,190 @@
+import * as cdk from 'aws-cdk-lib';
+import * as cloudwatch from 'aws-cdk-lib/aws-cloudwatch';
+import * as cw_actions from 'aws-cdk-lib/aws-cloudwatch-actions';
+import * as dynamodb from 'aws-cdk-lib/aws-dynamodb';
+import * as elbv2 from 'aws-cdk-lib/aws-elasticloadbalancingv2';
+import * as lambda from 'aws-cdk-lib/aws-lambda';
+import * as rds from 'aws-cdk-lib/aws-rds';
+import * as sns from 'aws-cdk-lib/aws-sns';
+import * as subscriptions from 'aws-cdk-lib/aws-sns-subscriptions';
+import { Construct } from 'constructs';
+import { WebService } from './web-service';
+
+export interface AlarmThresholds {
+  // Target 5xx responses per service in 5 minutes
+  target5xxCount: number;
+  // p95 target response time per service
+  targetResponseTimeSeconds: number;
+  serviceCpuPercent: number;
+  serviceMemoryPercent: number;
+  databaseCpuPercent: number;
+  databaseConnections: number;
+  databaseFreeStorageGiB: number;
+  // Throttled requests per table in 5 minutes
+  dynamodbThrottles: number;
+}
+
+export interface MonitoringProps {
+  loadBalancer: elbv2.IApplicationLoadBalancer;
+  services: { [name: string]: WebService };
+  database: rds.IDatabaseInstance;
+  tables: { [name: string]: dynamodb.ITableV2 };
+  functions: { [name: string]: lambda.IFunction };
+  // Metrics from log metric filters, keyed by label
+  logMetrics: { [label: string]: cloudwatch.Metric };
+  thresholds: AlarmThresholds;
+  alarmEmails: string[];
+  // HTTPS endpoints that receive the SNS notification JSON, e.g. an incident tool
+  alarmWebhooks: string[];
+}
+
+// One dashboard for the platform, with alarms routed to a single SNS topic
+export class Monitoring extends Construct {
+  public readonly dashboard: cloudwatch.Dashboard;
+  public readonly alarmTopic: sns.Topic;
+
+  constructor(scope: Construct, id: string, props: MonitoringProps) {
+    super(scope, id);
+    const period = cdk.Duration.minutes(5);
+
+    this.alarmTopic = new sns.Topic(this, 'AlarmTopic', {
+      displayName: `${cdk.Stack.of(this).stackName} alarms`,
+    });
+    for (const email of props.alarmEmails) {
+      this.alarmTopic.addSubscription(new subscriptions.EmailSubscription(email));
+    }
+    for (const url of props.alarmWebhooks) {
+      this.alarmTopic.addSubscription(new subscriptions.UrlSubscription(url));
+    }
+
+    const alarmAction = new cw_actions.SnsAction(this.alarmTopic);
+    // Alarms need two breaching periods in a row unless overridden
+    const alarm = (id: string, metric: cloudwatch.IMetric, threshold: number, description: string,
+      options: Partial<cloudwatch.AlarmProps> = {}) => {
+      const created = new cloudwatch.Alarm(this, id, {
+        metric: metric,
+        threshold: threshold,
+        comparisonOperator: cloudwatch.ComparisonOperator.GREATER_THAN_OR_EQUAL_TO_THRESHOLD,
+        evaluationPeriods: 2,
+        datapointsToAlarm: 2,
+        treatMissingData: cloudwatch.TreatMissingData.NOT_BREACHING,
+        alarmDescription: description,
+        ...options,
+      });
+      created.addAlarmAction(alarmAction);
+      created.addOkAction(alarmAction);
+      return created;
+    };
+
+    this.dashboard = new cloudwatch.Dashboard(this, 'Dashboard', {
+      dashboardName: cdk.Stack.of(this).stackName,
+      defaultInterval: cdk.Duration.hours(3),
+    });
+
+    // Load balancer and services
+    const services = Object.entries(props.services);
+    // Blue/green services serve from either target group, so their metrics combine both
+    const targetGroupMetric = (name: string, service: WebService, i: number, combine: (blue: string, green: string) => string,
+      metric: (targetGroup: elbv2.IApplicationTargetGroup) => cloudwatch.IMetric): cloudwatch.IMetric => {
+      if (!service.greenTargetGroup) {
+        return metric(service.targetGroup);
+      }
+      return new cloudwatch.MathExpression({
+        expression: combine(`FILL(blue${i}, 0)`, `FILL(green${i}, 0)`),
+        usingMetrics: { [`blue${i}`]: metric(service.targetGroup), [`green${i}`]: metric(service.greenTargetGroup) },
+        period: period,
+        label: name,
+      });
+    };
+    const target5xx = services.map(([name, service], i) => targetGroupMetric(name, service, i,
+      (blue, green) => `${blue} + ${green}`,
+      (targetGroup) => targetGroup.metrics.httpCodeTarget(elbv2.HttpCodeTarget.TARGET_5XX_COUNT, { period: period, label: name })));
+    const responseTime = services.map(([name, service], i) => targetGroupMetric(name, service, i,
+      (blue, green) => `MAX([${blue}, ${green}])`,
+      (targetGroup) => targetGroup.metrics.targetResponseTime({ period: period, statistic: 'p95', label: name })));
+    const cpu = services.map(([name, service]) => service.service.metricCpuUtilization({ period: period, label: name }));
+    const memory = services.map(([name, service]) => service.service.metricMemoryUtilization({ period: period, label: name }));
+
+    this.dashboard.addWidgets(new cloudwatch.TextWidget({ markdown: '## Load balancer and services', width: 24, height: 1 }));
+    this.dashboard.addWidgets(
+      new cloudwatch.GraphWidget({
+        title: '5xx responses',
+        left: [
+          ...target5xx,
+          props.loadBalancer.metrics.httpCodeElb(elbv2.HttpCodeElb.ELB_5XX_COUNT, { period: period, label: 'load balancer' }),
+        ],
+        width: 12,
+      }),
+      new cloudwatch.GraphWidget({ title: 'Target response time (p95)', left: responseTime, width: 12 }),
+      new cloudwatch.GraphWidget({ title: 'Service CPU', left: cpu, leftYAxis: { min: 0, max: 100 }, width: 12 }),
+      new cloudwatch.GraphWidget({ title: 'Service memory', left: memory, leftYAxis: { min: 0, max: 100 }, width: 12 }),
+    );
+
+    services.forEach(([name], i) => {
+      alarm(`${name}Target5xx`, target5xx[i], props.thresholds.target5xxCount, `${name} is returning 5xx responses`);
+      alarm(`${name}ResponseTime`, responseTime[i], props.thresholds.targetResponseTimeSeconds, `${name} p95 response time is high`);
+      alarm(`${name}Cpu`, cpu[i], props.thresholds.serviceCpuPercent, `${name} CPU is high`);
+      alarm(`${name}Memory`, memory[i], props.thresholds.serviceMemoryPercent, `${name} memory is high`);
+    });
+
+    // Database
+    const databaseCpu = props.database.metricCPUUtilization({ period: period });
+    const connections = props.database.metricDatabaseConnections({ period: period });
+    const freeStorage = props.database.metricFreeStorageSpace({ period: period, statistic: 'Minimum' });
+
+    this.dashboard.addWidgets(new cloudwatch.TextWidget({ markdown: '## Database', width: 24, height: 1 }));
+    this.dashboard.addWidgets(
+      new cloudwatch.GraphWidget({ title: 'CPU', left: [databaseCpu], leftYAxis: { min: 0, max: 100 }, width: 6 }),
+      new cloudwatch.GraphWidget({ title: 'Connections', left: [connections], width: 6 }),
+      new cloudwatch.GraphWidget({ title: 'Free storage', left: [freeStorage], width: 6 }),
+      new cloudwatch.GraphWidget({
+        title: 'Read and write latency',
+        left: [
+          props.database.metric('ReadLatency', { period: period, label: 'read' }),
+          props.database.metric('WriteLatency', { period: period, label: 'write' }),
+        ],
+        width: 6,
+      }),
+    );
+
+    alarm('DatabaseCpu', databaseCpu, props.thresholds.databaseCpuPercent, 'Database CPU is high');
+    alarm('DatabaseConnections', connections, props.thresholds.databaseConnections, 'Database connections are high');
+    alarm('DatabaseFreeStorage', freeStorage, props.thresholds.databaseFreeStorageGiB * 1024 ** 3,
+      'Database is running out of storage', { comparisonOperator: cloudwatch.ComparisonOperator.LESS_THAN_OR_EQUAL_TO_THRESHOLD });
+
+    // Tables and functions
+    // Metric ids must be unique across the graph that shows every table
+    const throttles = Object.entries(props.tables).map(([name, table], i) => new cloudwatch.MathExpression({
+      expression: `reads${i} + writes${i}`,
+      usingMetrics: {
+        [`reads${i}`]: table.metric('ReadThrottleEvents', { period: period, statistic: 'Sum' }),
+        [`writes${i}`]: table.metric('WriteThrottleEvents', { period: period, statistic: 'Sum' }),
+      },
+      period: period,
+      label: name,
+    }));
+    const errors = Object.entries(props.functions).map(([name, fn]) =>
+      fn.metricErrors({ period: period, label: name }));
+
+    this.dashboard.addWidgets(new cloudwatch.TextWidget({ markdown: '## Tables and functions', width: 24, height: 1 }));
+    this.dashboard.addWidgets(
+      new cloudwatch.GraphWidget({ title: 'DynamoDB throttled requests', left: throttles, width: 12 }),
+      new cloudwatch.GraphWidget({ title: 'Lambda errors', left: errors, width: 12 }),
+    );
+
+    this.dashboard.addWidgets(new cloudwatch.TextWidget({ markdown: '## Logs', width: 24, height: 1 }));
+    this.dashboard.addWidgets(new cloudwatch.GraphWidget({
+      title: 'Slow tile queries and tile server 5xx log lines',
+      left: Object.entries(props.logMetrics).map(([label, metric]) => metric.with({ period: period, label: label })),
+      width: 24,
+    }));
+
+    Object.keys(props.tables).forEach((name, i) => {
+      alarm(`${name}Throttles`, throttles[i], props.thresholds.dynamodbThrottles, `${name} requests are being throttled`);
+    });
+    Object.keys(props.functions).forEach((name, i) => {
+      // Deploy-time functions run rarely, so a single failure is enough
+      alarm(`${name}Errors`, errors[i], 1, `${name} is failing`, { evaluationPeriods: 1, datapointsToAlarm: 1 });
+    });
+  }
+}
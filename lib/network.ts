@@ -6,65 +6,121 @@ import * as rds from 'aws-cdk-lib/aws-rds';
 import * as route53 from 'aws-cdk-lib/aws-route53';
 import * as targets from 'aws-cdk-lib/aws-route53-targets';
 
+export type NetworkEgress = 'nat' | 'endpoints';
+export type DatabaseSubnets = 'public' | 'isolated';
+
 export interface NetworkProps {
   cidr: string;
   hostedZones: route53.IPublicHostedZone[];
+  // How workloads in the compute subnets reach AWS services and the internet
+  egress: NetworkEgress;
+  // Only used with 'nat' egress
+  natGateways?: number;
+  // Subnets of the database subnet group, 'isolated' by default. 'public' keeps the group that
+  // instances created before the database subnets were added live in
+  databaseSubnets?: DatabaseSubnets;
+  // HTTPS listener used by blue/green deployments to reach the replacement tasks
+  testListener?: {
+    port: number;
+    // Who may send test traffic; nobody when empty
+    allowedCidrs: string[];
+  };
 }
 
 export class Network extends Construct {
   public readonly vpc: ec2.Vpc;
   public readonly subnetGroup: rds.SubnetGroup; 
+  public readonly computeSubnets: ec2.SubnetSelection;
+  public readonly databaseSubnets: ec2.SubnetSelection;
   public readonly alb: elbv2.ApplicationLoadBalancer;
   public readonly httpsListener: elbv2.ApplicationListener; 
+  public readonly testListener?: elbv2.ApplicationListener;
+  // Certificates for each hosted zone, covering the apex and its subdomains
+  public readonly certificates: { [zoneName: string]: acm.Certificate } = {};
 
   constructor(scope: Construct, id: string, props: NetworkProps) {
     super(scope, id);
 
+    // Public subnets only hold the ALB and NAT gateways. Without NAT the compute
+    // subnets are isolated and reach AWS services through interface endpoints.
     this.vpc = new ec2.Vpc(this, 'Vpc', {
       ipAddresses: ec2.IpAddresses.cidr(props.cidr),
       maxAzs: 3,
+      natGateways: props.egress === 'nat' ? props.natGateways ?? 1 : 0,
       subnetConfiguration: [
         {
           cidrMask: 24,
           name: 'PublicSubnet',
           subnetType: ec2.SubnetType.PUBLIC,
         },
+        {
+          cidrMask: 22,
+          name: 'ComputeSubnet',
+          subnetType: props.egress === 'nat' ? ec2.SubnetType.PRIVATE_WITH_EGRESS : ec2.SubnetType.PRIVATE_ISOLATED,
+        },
+        {
+          cidrMask: 24,
+          name: 'DatabaseSubnet',
+          subnetType: ec2.SubnetType.PRIVATE_ISOLATED,
+        },
       ],
     });
+    this.computeSubnets = { subnetGroupName: 'ComputeSubnet' };
+    this.databaseSubnets = { subnetGroupName: 'DatabaseSubnet' };
+
     this.vpc.addGatewayEndpoint('S3Endpoint', {
       service: ec2.GatewayVpcEndpointAwsService.S3,
     });
+    this.vpc.addGatewayEndpoint('DynamoDbEndpoint', {
+      service: ec2.GatewayVpcEndpointAwsService.DYNAMODB,
+    });
 
-    const publicSubnets = this.vpc.publicSubnets;
-    const selectedSubnet = publicSubnets[0];
-    this.vpc.addInterfaceEndpoint('SecretsManagerEndpoint', {
-      service: ec2.InterfaceVpcEndpointAwsService.SECRETS_MANAGER,
-      subnets: {
-        subnets: [selectedSubnet],
-      },
-      privateDnsEnabled: true,
-    })
-
-    this.subnetGroup = new rds.SubnetGroup(this, 'SubnetGroupAll', {
-      vpc: this.vpc,
-      description: 'Subnet Group with all subnets',
-      vpcSubnets: {
-        subnets: this.vpc.publicSubnets,
+    if (props.egress === 'endpoints') {
+      const interfaceEndpoints: { [name: string]: ec2.InterfaceVpcEndpointAwsService } = {
+        EcrEndpoint: ec2.InterfaceVpcEndpointAwsService.ECR,
+        EcrDockerEndpoint: ec2.InterfaceVpcEndpointAwsService.ECR_DOCKER,
+        LogsEndpoint: ec2.InterfaceVpcEndpointAwsService.CLOUDWATCH_LOGS,
+        SecretsManagerEndpoint: ec2.InterfaceVpcEndpointAwsService.SECRETS_MANAGER,
+        SsmEndpoint: ec2.InterfaceVpcEndpointAwsService.SSM,
+        SsmMessagesEndpoint: ec2.InterfaceVpcEndpointAwsService.SSM_MESSAGES,
+        Ec2MessagesEndpoint: ec2.InterfaceVpcEndpointAwsService.EC2_MESSAGES,
+        // The view refresh publishes its Materialized Views Refreshed event
+        EventsEndpoint: ec2.InterfaceVpcEndpointAwsService.EVENTBRIDGE,
+      };
+      for (const [name, service] of Object.entries(interfaceEndpoints)) {
+        this.vpc.addInterfaceEndpoint(name, {
+          service: service,
+          subnets: this.computeSubnets,
+          privateDnsEnabled: true,
+        });
       }
-    });
+    }
+
+    // RDS only moves an instance to another subnet group of its VPC by replacing it,
+    // see "Moving the database to the isolated subnets" in the README
+    if (props.databaseSubnets === 'public') {
+      this.subnetGroup = new rds.SubnetGroup(this, 'SubnetGroupAll', {
+        vpc: this.vpc,
+        description: 'Subnet Group with all subnets',
+        vpcSubnets: {
+          subnets: this.vpc.publicSubnets,
+        }
+      });
+    } else {
+      this.subnetGroup = new rds.SubnetGroup(this, 'DatabaseSubnetGroup', {
+        vpc: this.vpc,
+        description: 'Subnet Group with the isolated database subnets',
+        vpcSubnets: this.databaseSubnets,
+      });
+    }
 
     this.alb = new elbv2.ApplicationLoadBalancer(this, 'ApplicationLoadBalancer', {
       vpc: this.vpc,
       internetFacing: true,
     });
 
-    interface certDictionary {
-      [key: string]: acm.Certificate;
-    }
-
-    let certificates: certDictionary = {};
     for (let hostedZone of props.hostedZones) {
-      certificates[hostedZone.zoneName] = new acm.Certificate(this, `${hostedZone.zoneName}Certificate`, {
+      this.certificates[hostedZone.zoneName] = new acm.Certificate(this, `${hostedZone.zoneName}Certificate`, {
         domainName: hostedZone.zoneName,
         subjectAlternativeNames: [`*.${hostedZone.zoneName}`],
         validation: acm.CertificateValidation.fromDns(hostedZone),
@@ -92,11 +148,26 @@ export class Network extends Construct {
       })
     });
 
+    // The first zone's certificate is the default; the others are served by SNI
+    const certificates = Object.values(this.certificates);
+
     this.httpsListener = this.alb.addListener('Listener443', {
       port: 443,
-      certificates: [Object.entries(certificates)[0][1]],
+      certificates: certificates,
       open: true,
       defaultAction: elbv2.ListenerAction.fixedResponse(404),
     });
+
+    if (props.testListener) {
+      this.testListener = this.alb.addListener('TestListener', {
+        port: props.testListener.port,
+        certificates: certificates,
+        open: false,
+        defaultAction: elbv2.ListenerAction.fixedResponse(404),
+      });
+      for (const cidr of props.testListener.allowedCidrs) {
+        this.testListener.connections.allowDefaultPortFrom(ec2.Peer.ipv4(cidr), 'Blue/green test traffic');
+      }
+    }
   }
 }
@@ -0,0 +1,129 @@
+import * as path from 'path';
+import * as cdk from 'aws-cdk-lib';
+import * as ec2 from 'aws-cdk-lib/aws-ec2';
+import * as ecr_assets from 'aws-cdk-lib/aws-ecr-assets';
+import * as ecs from 'aws-cdk-lib/aws-ecs';
+import * as iam from 'aws-cdk-lib/aws-iam';
+import * as logs from 'aws-cdk-lib/aws-logs';
+import { Construct } from 'constructs';
+import { Database } from './data';
+
+export type OpsDatabaseRole = 'gis_admin' | 'read' | 'master';
+
+export interface OpsTaskProps {
+  network: {
+    vpc: ec2.IVpc;
+    computeSubnets: ec2.SubnetSelection;
+  };
+  // Must log ECS Exec sessions to executeCommandLogGroup
+  cluster: ecs.ICluster;
+  executeCommandLogGroup: logs.ILogGroup;
+  database: Database;
+  // Whose credentials psql and ogr2ogr use, gis_admin by default
+  databaseRole?: OpsDatabaseRole;
+  // The task stops after this long without a Session Manager session
+  idleTimeout: cdk.Duration;
+  cpu: number;
+  memoryLimitMiB: number;
+  logRetention: logs.RetentionDays;
+}
+
+// A Fargate task with psql and ogr2ogr for working on the database by hand. Nothing
+// runs until the task is started; it has no inbound rules, so it is only reached with
+// ECS Exec, or Session Manager port forwarding to the database, and it stops itself
+// once no session has been open for the idle timeout.
+export class OpsTask extends Construct {
+  public readonly taskDefinition: ecs.FargateTaskDefinition;
+  public readonly securityGroup: ec2.SecurityGroup;
+  public readonly logGroup: logs.LogGroup;
+
+  constructor(scope: Construct, id: string, props: OpsTaskProps) {
+    super(scope, id);
+
+    const secrets = {
+      gis_admin: props.database.gisadminSecret,
+      read: props.database.readSecret,
+      master: props.database.instance.secret!,
+    };
+    const secret = secrets[props.databaseRole ?? 'gis_admin'];
+
+    this.taskDefinition = new ecs.FargateTaskDefinition(this, 'TaskDef', {
+      family: `${cdk.Stack.of(this).stackName}-ops`,
+      cpu: props.cpu,
+      memoryLimitMiB: props.memoryLimitMiB,
+      runtimePlatform: {
+        cpuArchitecture: ecs.CpuArchitecture.ARM64,
+      },
+    });
+
+    this.logGroup = new logs.LogGroup(this, 'LogGroup', {
+      retention: props.logRetention,
+    });
+
+    this.taskDefinition.addContainer('Ops', {
+      /* eslint-disable no-undef */
+      image: ecs.ContainerImage.fromAsset(path.join(__dirname, 'ops-task'), {
+        platform: ecr_assets.Platform.LINUX_ARM64,
+      }),
+      /* eslint-enable no-undef */
+      environment: {
+        IDLE_TIMEOUT_MINUTES: props.idleTimeout.toMinutes().toString(),
+      },
+      secrets: {
+        PGHOST: ecs.Secret.fromSecretsManager(secret, 'host'),
+        PGPORT: ecs.Secret.fromSecretsManager(secret, 'port'),
+        PGDATABASE: ecs.Secret.fromSecretsManager(secret, 'dbname'),
+        PGUSER: ecs.Secret.fromSecretsManager(secret, 'username'),
+        PGPASSWORD: ecs.Secret.fromSecretsManager(secret, 'password'),
+      },
+      logging: new ecs.AwsLogDriver({ streamPrefix: 'ops', logGroup: this.logGroup }),
+    });
+
+    // What services get from enableExecuteCommand, which only exists on services
+    this.taskDefinition.addToTaskRolePolicy(new iam.PolicyStatement({
+      actions: [
+        'ssmmessages:CreateControlChannel',
+        'ssmmessages:CreateDataChannel',
+        'ssmmessages:OpenControlChannel',
+        'ssmmessages:OpenDataChannel',
+      ],
+      resources: ['*'],
+    }));
+    this.taskDefinition.addToTaskRolePolicy(new iam.PolicyStatement({
+      actions: ['logs:DescribeLogGroups'],
+      resources: ['*'],
+    }));
+    this.taskDefinition.addToTaskRolePolicy(new iam.PolicyStatement({
+      actions: ['logs:CreateLogStream', 'logs:DescribeLogStreams', 'logs:PutLogEvents'],
+      resources: [props.executeCommandLogGroup.logGroupArn],
+    }));
+
+    this.securityGroup = new ec2.SecurityGroup(this, 'SecurityGroup', {
+      vpc: props.network.vpc,
+      description: 'Used by the Ops Task',
+      allowAllOutbound: true,
+      disableInlineRules: true
+    });
+
+    props.database.databaseSecurityGroup.addIngressRule(
+      this.securityGroup,
+      ec2.Port.tcp(5432),
+      "Allow inbound to database from ops task"
+    );
+
+    const subnets = props.network.vpc.selectSubnets(props.network.computeSubnets).subnetIds;
+    new cdk.CfnOutput(this, 'RunTaskCommand', {
+      description: 'Starts the ops task',
+      value: cdk.Fn.join(' ', [
+        'aws ecs run-task --enable-execute-command --launch-type FARGATE',
+        '--cluster', props.cluster.clusterName,
+        '--task-definition', this.taskDefinition.family,
+        '--network-configuration',
+        cdk.Fn.join('', [
+          'awsvpcConfiguration={subnets=[', cdk.Fn.join(',', subnets),
+          '],securityGroups=[', this.securityGroup.securityGroupId, ']}',
+        ]),
+      ]),
+    });
+  }
+}
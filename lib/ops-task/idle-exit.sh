@@ -0,0 +1,19 @@
+#!/bin/sh
+# Keeps the task running while Session Manager sessions are open, whether ECS Exec
+# shells or port forwarding, and exits once there have been none for
+# IDLE_TIMEOUT_MINUTES, which stops the task.
+set -eu
+
+idle=0
+while [ "$idle" -lt "$IDLE_TIMEOUT_MINUTES" ]; do
+  sleep 60
+  # The ECS Exec agent runs a session worker inside the container for each session.
+  # The bracket keeps grep from matching its own command line.
+  if grep -qs 'ssm-session-worke[r]' /proc/[0-9]*/cmdline; then
+    idle=0
+  else
+    idle=$((idle + 1))
+  fi
+done
+
+echo "No sessions for ${IDLE_TIMEOUT_MINUTES} minutes, stopping"
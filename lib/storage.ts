@@ -1,16 +1,68 @@
 import { Construct } from 'constructs';
+import * as cdk from 'aws-cdk-lib';
 import * as ecr from 'aws-cdk-lib/aws-ecr';
 
+export interface ImageRepositoriesProps {
+  // Release images to keep in each repository, newest first
+  keepReleases: number;
+  // Tags that mark a release image, e.g. v for v1.4.2
+  releaseTagPrefixes: string[];
+  // Untagged images, e.g. layers left by a failed push, are removed after this many days
+  untaggedExpiryDays: number;
+  // Copy pushed images to these regions. Replication is configured for the whole
+  // registry, so only one stack per account and region may set it.
+  replicationRegions: string[];
+}
+
 export class ImageRepositories extends Construct {
   public readonly gridwalkProduct: ecr.Repository;
   public readonly gridwalkUi: ecr.Repository;
   public readonly gridwalkBackend: ecr.Repository;
 
-  constructor(scope: Construct, id: string) {
+  constructor(scope: Construct, id: string, props: ImageRepositoriesProps) {
     super(scope, id);
 
-    this.gridwalkProduct = new ecr.Repository(this, 'GridwalkProduct');
-    this.gridwalkUi = new ecr.Repository(this, 'GridwalkUi');
-    this.gridwalkBackend = new ecr.Repository(this, 'GridwalkBackend');
+    // Tags can't be moved once pushed, so a deployed tag always means the same image
+    const repository = (id: string) => new ecr.Repository(this, id, {
+      imageTagMutability: ecr.TagMutability.IMMUTABLE,
+      imageScanOnPush: true,
+      lifecycleRules: [
+        {
+          rulePriority: 1,
+          description: 'Expire untagged images',
+          tagStatus: ecr.TagStatus.UNTAGGED,
+          maxImageAge: cdk.Duration.days(props.untaggedExpiryDays),
+        },
+        {
+          rulePriority: 2,
+          description: `Keep the last ${props.keepReleases} releases`,
+          tagStatus: ecr.TagStatus.TAGGED,
+          tagPrefixList: props.releaseTagPrefixes,
+          maxImageCount: props.keepReleases,
+        },
+      ],
+    });
+
+    this.gridwalkProduct = repository('GridwalkProduct');
+    this.gridwalkUi = repository('GridwalkUi');
+    this.gridwalkBackend = repository('GridwalkBackend');
+
+    if (props.replicationRegions.length > 0) {
+      const repositories = [this.gridwalkProduct, this.gridwalkUi, this.gridwalkBackend];
+      new ecr.CfnReplicationConfiguration(this, 'Replication', {
+        replicationConfiguration: {
+          rules: [{
+            destinations: props.replicationRegions.map((region) => ({
+              region: region,
+              registryId: cdk.Stack.of(this).account,
+            })),
+            repositoryFilters: repositories.map((repository) => ({
+              filter: repository.repositoryName,
+              filterType: 'PREFIX_MATCH',
+            })),
+          }],
+        },
+      });
+    }
   }
 }
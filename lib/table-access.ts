@@ -0,0 +1,48 @@
+import * as dynamodb from 'aws-cdk-lib/aws-dynamodb';
+import * as iam from 'aws-cdk-lib/aws-iam';
+
+export type TableAction =
+  | 'GetItem'
+  | 'BatchGetItem'
+  | 'Query'
+  | 'Scan'
+  | 'ConditionCheckItem'
+  | 'PutItem'
+  | 'UpdateItem'
+  | 'DeleteItem'
+  | 'BatchWriteItem'
+  | 'DescribeTable';
+
+// The only actions that apply to a global secondary index
+const indexActions: TableAction[] = ['Query', 'Scan'];
+
+// What a service does with one table, e.g. product only puts items in the landing table
+export interface TableAccess {
+  table: dynamodb.ITableV2;
+  actions: TableAction[];
+  // Global secondary indexes read with the Query or Scan actions
+  indexes?: string[];
+}
+
+// Statements granting exactly the declared actions on the table and its named indexes
+export function tableAccessStatements(access: TableAccess): iam.PolicyStatement[] {
+  const statements = [
+    new iam.PolicyStatement({
+      actions: access.actions.map((action) => `dynamodb:${action}`),
+      resources: [access.table.tableArn],
+    }),
+  ];
+
+  const indexes = access.indexes ?? [];
+  if (indexes.length > 0) {
+    const actions = access.actions.filter((action) => indexActions.includes(action));
+    if (actions.length === 0) {
+      throw new Error(`Access to the ${indexes.join(', ')} indexes of ${access.table.node.path} needs Query or Scan`);
+    }
+    statements.push(new iam.PolicyStatement({
+      actions: actions.map((action) => `dynamodb:${action}`),
+      resources: indexes.map((index) => `${access.table.tableArn}/index/${index}`),
+    }));
+  }
+  return statements;
+}
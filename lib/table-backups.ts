@@ -0,0 +1,44 @@
+import * as cdk from 'aws-cdk-lib';
+import * as backup from 'aws-cdk-lib/aws-backup';
+import * as dynamodb from 'aws-cdk-lib/aws-dynamodb';
+import * as events from 'aws-cdk-lib/aws-events';
+import { Construct } from 'constructs';
+
+export interface TableBackupsProps {
+  tables: dynamodb.ITableV2[];
+  // EventBridge cron() expression, in UTC
+  schedule: string;
+  retention: cdk.Duration;
+}
+
+// Full backups of the tables through AWS Backup, kept alongside point in time
+// recovery for longer than its 35 days. On-demand backups can be started against
+// the same vault and plan.
+export class TableBackups extends Construct {
+  public readonly vault: backup.BackupVault;
+  public readonly plan: backup.BackupPlan;
+
+  constructor(scope: Construct, id: string, props: TableBackupsProps) {
+    super(scope, id);
+
+    // Recovery points outlive the stack
+    this.vault = new backup.BackupVault(this, 'Vault', {
+      removalPolicy: cdk.RemovalPolicy.RETAIN,
+    });
+
+    this.plan = new backup.BackupPlan(this, 'Plan', {
+      backupVault: this.vault,
+      backupPlanRules: [
+        new backup.BackupPlanRule({
+          ruleName: 'Scheduled',
+          scheduleExpression: events.Schedule.expression(props.schedule),
+          deleteAfter: props.retention,
+        }),
+      ],
+    });
+
+    this.plan.addSelection('Tables', {
+      resources: props.tables.map((table) => backup.BackupResource.fromDynamoDbTable(table)),
+    });
+  }
+}
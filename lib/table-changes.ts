@@ -0,0 +1,69 @@
+import * as path from 'path';
+import * as cdk from 'aws-cdk-lib';
+import * as dynamodb from 'aws-cdk-lib/aws-dynamodb';
+import * as events from 'aws-cdk-lib/aws-events';
+import * as lambda from 'aws-cdk-lib/aws-lambda';
+import * as eventSources from 'aws-cdk-lib/aws-lambda-event-sources';
+import * as nodejs from 'aws-cdk-lib/aws-lambda-nodejs';
+import * as sqs from 'aws-cdk-lib/aws-sqs';
+import { Construct } from 'constructs';
+
+export const tableChangedEvent = {
+  source: 'gridwalk.tables',
+  detailType: 'Table Item Changed',
+};
+
+export interface TableChangesProps {
+  // Must have a stream
+  table: dynamodb.ITableV2;
+  // Handles the stream records instead of the default function, which logs each
+  // change and publishes it to EventBridge
+  consumer?: lambda.IFunction;
+  batchSize?: number;
+}
+
+// Feeds a table's stream to a consumer. Records that still fail after the retries
+// are sent to a dead letter queue rather than blocking the shard.
+export class TableChanges extends Construct {
+  public readonly consumer: lambda.IFunction;
+  public readonly deadLetterQueue: sqs.Queue;
+
+  constructor(scope: Construct, id: string, props: TableChangesProps) {
+    super(scope, id);
+
+    if (props.consumer) {
+      this.consumer = props.consumer;
+    } else {
+      const consumer = new nodejs.NodejsFunction(this, 'Consumer', {
+        runtime: lambda.Runtime.NODEJS_20_X,
+        architecture: lambda.Architecture.ARM_64,
+        timeout: cdk.Duration.seconds(30),
+        /* eslint-disable no-undef */
+        projectRoot: path.join(__dirname, 'table-changes'),
+        depsLockFilePath: path.join(__dirname, 'table-changes', 'package-lock.json'),
+        entry: path.join(__dirname, 'table-changes', 'index.ts'),
+        /* eslint-enable no-undef */
+        environment: {
+          EVENT_SOURCE: tableChangedEvent.source,
+          EVENT_DETAIL_TYPE: tableChangedEvent.detailType,
+        },
+      });
+      events.EventBus.grantAllPutEvents(consumer);
+      this.consumer = consumer;
+    }
+
+    this.deadLetterQueue = new sqs.Queue(this, 'DeadLetterQueue', {
+      retentionPeriod: cdk.Duration.days(14),
+      enforceSSL: true,
+    });
+
+    this.consumer.addEventSource(new eventSources.DynamoEventSource(props.table, {
+      startingPosition: lambda.StartingPosition.TRIM_HORIZON,
+      batchSize: props.batchSize ?? 100,
+      bisectBatchOnError: true,
+      reportBatchItemFailures: true,
+      retryAttempts: 5,
+      onFailure: new eventSources.SqsDlq(this.deadLetterQueue),
+    }));
+  }
+}
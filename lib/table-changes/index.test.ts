@@ -0,0 +1,75 @@
+import { Context, DynamoDBRecord, DynamoDBStreamEvent } from 'aws-lambda';
+import { EventBridgeClient } from '@aws-sdk/client-eventbridge';
+import { handler, tableChange } from './index';
+
+jest.mock('@aws-sdk/client-eventbridge', () => {
+  const send = jest.fn();
+  return {
+    EventBridgeClient: jest.fn(() => ({ send })),
+    PutEventsCommand: jest.fn((input) => input),
+  };
+});
+
+const send = new EventBridgeClient().send as jest.Mock;
+
+function record(sequenceNumber: string, eventName: 'INSERT' | 'MODIFY' | 'REMOVE' = 'MODIFY'): DynamoDBRecord {
+  return {
+    eventName: eventName,
+    eventSourceARN: 'arn:aws:dynamodb:us-east-1:017820660020:table/GridwalkTable-ABC/stream/2024-05-01T00:00:00.000',
+    dynamodb: {
+      Keys: { PK: { S: 'USER#1' }, SK: { S: 'PROFILE' } },
+      NewImage: { PK: { S: 'USER#1' }, SK: { S: 'PROFILE' }, email: { S: 'someone@example.com' } },
+      ApproximateCreationDateTime: 1714521600,
+      SequenceNumber: sequenceNumber,
+    },
+  };
+}
+
+async function invoke(records: DynamoDBRecord[]) {
+  const event: DynamoDBStreamEvent = { Records: records };
+  return handler(event, {} as Context, () => undefined);
+}
+
+describe('tableChange', () => {
+  test('keeps the keys but not the item', () => {
+    expect(tableChange(record('1'))).toEqual({
+      table: 'GridwalkTable-ABC',
+      eventName: 'MODIFY',
+      keys: { PK: 'USER#1', SK: 'PROFILE' },
+      expired: false,
+      changedAt: '2024-05-01T00:00:00.000Z',
+    });
+  });
+
+  test('marks items removed by TTL', () => {
+    const expired = { ...record('1', 'REMOVE'), userIdentity: { type: 'Service', principalId: 'dynamodb.amazonaws.com' } };
+    expect(tableChange(expired).expired).toBe(true);
+    expect(tableChange(record('1', 'REMOVE')).expired).toBe(false);
+  });
+});
+
+describe('handler', () => {
+  beforeEach(() => {
+    send.mockReset();
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+  });
+
+  test('publishes changes in batches of ten', async () => {
+    send.mockResolvedValue({ Entries: [] });
+
+    const result = await invoke(Array.from({ length: 12 }, (_, i) => record(`${i}`)));
+
+    expect(send).toHaveBeenCalledTimes(2);
+    expect(send.mock.calls[0][0].Entries).toHaveLength(10);
+    expect(send.mock.calls[1][0].Entries).toHaveLength(2);
+    expect(result).toEqual({ batchItemFailures: [] });
+  });
+
+  test('retries from the first record that was not published', async () => {
+    send.mockResolvedValueOnce({ Entries: [{ EventId: 'a' }, { ErrorCode: 'InternalFailure' }, { EventId: 'c' }] });
+
+    const result = await invoke([record('1'), record('2'), record('3')]);
+
+    expect(result).toEqual({ batchItemFailures: [{ itemIdentifier: '2' }] });
+  });
+});
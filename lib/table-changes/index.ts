@@ -0,0 +1,60 @@
+import { DynamoDBBatchResponse, DynamoDBRecord, DynamoDBStreamHandler } from 'aws-lambda';
+import { EventBridgeClient, PutEventsCommand, PutEventsRequestEntry } from "@aws-sdk/client-eventbridge";
+import { unmarshall } from "@aws-sdk/util-dynamodb";
+
+export interface TableChange {
+  table: string;
+  // INSERT, MODIFY or REMOVE
+  eventName: string;
+  keys: Record<string, unknown>;
+  // Set when the item was removed by TTL rather than by a client
+  expired: boolean;
+  changedAt?: string;
+}
+
+const eventBridge = new EventBridgeClient();
+
+// PutEvents takes at most 10 entries
+const batchSize = 10;
+
+export function tableChange(record: DynamoDBRecord): TableChange {
+  const seconds = record.dynamodb?.ApproximateCreationDateTime;
+  return {
+    // arn:aws:dynamodb:<region>:<account>:table/<name>/stream/<label>
+    table: record.eventSourceARN?.split('/')[1] ?? 'unknown',
+    eventName: record.eventName ?? 'unknown',
+    keys: unmarshall((record.dynamodb?.Keys ?? {}) as Parameters<typeof unmarshall>[0]),
+    expired: record.eventName === 'REMOVE' && record.userIdentity?.principalId === 'dynamodb.amazonaws.com',
+    changedAt: seconds === undefined ? undefined : new Date(seconds * 1000).toISOString(),
+  };
+}
+
+// Default consumer of the table streams. Each change is logged as one JSON line,
+// which is the audit trail, and published to EventBridge for anything that reacts
+// to changes. Only keys are passed on so that item contents stay in the table.
+export const handler: DynamoDBStreamHandler = async (event): Promise<DynamoDBBatchResponse> => {
+  const failures: DynamoDBBatchResponse['batchItemFailures'] = [];
+
+  for (let i = 0; i < event.Records.length; i += batchSize) {
+    const records = event.Records.slice(i, i + batchSize);
+    const entries: PutEventsRequestEntry[] = records.map((record) => {
+      const change = tableChange(record);
+      console.log(JSON.stringify({ audit: 'table-change', ...change }));
+      return {
+        Source: process.env.EVENT_SOURCE,
+        DetailType: process.env.EVENT_DETAIL_TYPE,
+        Detail: JSON.stringify(change),
+      };
+    });
+
+    const result = await eventBridge.send(new PutEventsCommand({ Entries: entries }));
+    // The stream is retried from the first failed record, so later batches are left for the retry
+    const failed = (result.Entries ?? []).findIndex((entry) => entry.ErrorCode !== undefined);
+    if (failed !== -1) {
+      failures.push({ itemIdentifier: records[failed].dynamodb!.SequenceNumber! });
+      break;
+    }
+  }
+
+  return { batchItemFailures: failures };
+};
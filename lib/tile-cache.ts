@@ -0,0 +1,169 @@
+import * as path from 'path';
+import * as cdk from 'aws-cdk-lib';
+import * as acm from 'aws-cdk-lib/aws-certificatemanager';
+import * as cloudfront from 'aws-cdk-lib/aws-cloudfront';
+import * as origins from 'aws-cdk-lib/aws-cloudfront-origins';
+import * as events from 'aws-cdk-lib/aws-events';
+import * as eventTargets from 'aws-cdk-lib/aws-events-targets';
+import * as lambda from 'aws-cdk-lib/aws-lambda';
+import * as nodejs from 'aws-cdk-lib/aws-lambda-nodejs';
+import * as route53 from 'aws-cdk-lib/aws-route53';
+import * as route53Targets from 'aws-cdk-lib/aws-route53-targets';
+import * as s3 from 'aws-cdk-lib/aws-s3';
+import { Construct } from 'constructs';
+
+// Published to the default event bus once the materialized views behind the
+// tiles have been refreshed, with an optional list of paths in the detail
+export const viewsRefreshedEvent = {
+  source: 'gridwalk.database',
+  detailType: 'Materialized Views Refreshed',
+};
+
+export interface TileCacheProps {
+  hostedZone: route53.IHostedZone;
+  // Host served by the distribution, e.g. tiles.<zoneName>
+  domainName: string;
+  // Host CloudFront fetches tiles from, e.g. tiles-origin.<zoneName>. It must resolve to
+  // the load balancer, have a listener rule for the tile server and be covered by its certificate.
+  originDomainName: string;
+  // Must be issued in us-east-1 and cover domainName
+  certificate: acm.ICertificate;
+  tileTtl: cdk.Duration;
+  staticTtl: cdk.Duration;
+  // Serve pre-rendered tiles from the bucket when the tile server is failing
+  prerenderedFailover: boolean;
+}
+
+// CloudFront in front of the tile server. Tiles are cached on their path alone,
+// static assets (styles, sprites and glyphs) are served from the bucket under static/
+export class TileCache extends Construct {
+  public readonly distribution: cloudfront.Distribution;
+  public readonly bucket: s3.Bucket;
+
+  constructor(scope: Construct, id: string, props: TileCacheProps) {
+    super(scope, id);
+
+    if (!cdk.Token.isUnresolved(cdk.Stack.of(this).region) && cdk.Stack.of(this).region !== 'us-east-1') {
+      throw new Error(`TileCache needs a us-east-1 certificate for CloudFront, but the stack is in ${cdk.Stack.of(this).region}`);
+    }
+
+    this.bucket = new s3.Bucket(this, 'Bucket', {
+      blockPublicAccess: s3.BlockPublicAccess.BLOCK_ALL,
+      encryption: s3.BucketEncryption.S3_MANAGED,
+      enforceSSL: true,
+    });
+
+    // CloudFront sends each origin its own domain as the Host header, so the ALB routes
+    // originDomainName to the tile server while S3 still finds the bucket. Forwarding the
+    // viewer's Host would send tiles.<zoneName> to S3 too, and break the failover.
+    const tileServerOrigin = new origins.HttpOrigin(props.originDomainName, {
+      protocolPolicy: cloudfront.OriginProtocolPolicy.HTTPS_ONLY,
+    });
+
+    // Tiles for /{layer}/{z}/{x}/{y}.mvt are fixed until the views are refreshed,
+    // so the TTL is enforced regardless of the Cache-Control sent by the server
+    const tilePolicy = new cloudfront.CachePolicy(this, 'TilePolicy', {
+      comment: 'Vector tiles, keyed on z/x/y in the path',
+      minTtl: props.tileTtl,
+      defaultTtl: props.tileTtl,
+      maxTtl: props.tileTtl,
+      queryStringBehavior: cloudfront.CacheQueryStringBehavior.none(),
+      headerBehavior: cloudfront.CacheHeaderBehavior.none(),
+      cookieBehavior: cloudfront.CacheCookieBehavior.none(),
+      enableAcceptEncodingGzip: true,
+      enableAcceptEncodingBrotli: true,
+    });
+    const staticPolicy = new cloudfront.CachePolicy(this, 'StaticPolicy', {
+      comment: 'Static map assets and the TileJSON document',
+      minTtl: cdk.Duration.seconds(0),
+      defaultTtl: props.staticTtl,
+      maxTtl: props.staticTtl,
+      queryStringBehavior: cloudfront.CacheQueryStringBehavior.none(),
+      headerBehavior: cloudfront.CacheHeaderBehavior.none(),
+      cookieBehavior: cloudfront.CacheCookieBehavior.none(),
+      enableAcceptEncodingGzip: true,
+      enableAcceptEncodingBrotli: true,
+    });
+
+    // Map clients fetch tiles, the TileJSON and styles from the app and white-label domains.
+    // Nothing is served per user, so any site may read them without credentials.
+    const corsPolicy = new cloudfront.ResponseHeadersPolicy(this, 'CorsPolicy', {
+      comment: 'Lets map clients on other origins read tiles and static assets',
+      corsBehavior: {
+        accessControlAllowCredentials: false,
+        accessControlAllowHeaders: ['*'],
+        accessControlAllowMethods: ['GET', 'HEAD'],
+        accessControlAllowOrigins: ['*'],
+        accessControlMaxAge: cdk.Duration.days(1),
+        originOverride: true,
+      },
+    });
+
+    // Pre-rendered tiles are stored under prerendered/ using the same paths as the tile server
+    const tileOrigin = props.prerenderedFailover
+      ? new origins.OriginGroup({
+        primaryOrigin: tileServerOrigin,
+        fallbackOrigin: new origins.S3Origin(this.bucket, { originPath: '/prerendered' }),
+        fallbackStatusCodes: [500, 502, 503, 504],
+      })
+      : tileServerOrigin;
+
+    this.distribution = new cloudfront.Distribution(this, 'Distribution', {
+      comment: `Tile cache for ${props.domainName}`,
+      domainNames: [props.domainName],
+      certificate: props.certificate,
+      priceClass: cloudfront.PriceClass.PRICE_CLASS_100,
+      defaultBehavior: {
+        origin: tileOrigin,
+        viewerProtocolPolicy: cloudfront.ViewerProtocolPolicy.REDIRECT_TO_HTTPS,
+        cachePolicy: tilePolicy,
+        responseHeadersPolicy: corsPolicy,
+      },
+      additionalBehaviors: {
+        '/tiles.json': {
+          origin: tileServerOrigin,
+          viewerProtocolPolicy: cloudfront.ViewerProtocolPolicy.REDIRECT_TO_HTTPS,
+          cachePolicy: staticPolicy,
+          responseHeadersPolicy: corsPolicy,
+        },
+        '/static/*': {
+          origin: new origins.S3Origin(this.bucket),
+          viewerProtocolPolicy: cloudfront.ViewerProtocolPolicy.REDIRECT_TO_HTTPS,
+          cachePolicy: staticPolicy,
+          responseHeadersPolicy: corsPolicy,
+        },
+      },
+    });
+
+    // Takes precedence over the wildcard record pointing at the ALB
+    new route53.ARecord(this, 'AliasRecord', {
+      zone: props.hostedZone,
+      recordName: props.domainName,
+      target: route53.RecordTarget.fromAlias(new route53Targets.CloudFrontTarget(this.distribution)),
+    });
+
+    const invalidateTiles = new nodejs.NodejsFunction(this, 'InvalidateTiles', {
+      runtime: lambda.Runtime.NODEJS_20_X,
+      architecture: lambda.Architecture.ARM_64,
+      timeout: cdk.Duration.seconds(30),
+      /* eslint-disable no-undef */
+      projectRoot: path.join(__dirname, 'invalidate-tiles'),
+      depsLockFilePath: path.join(__dirname, 'invalidate-tiles', 'package-lock.json'),
+      entry: path.join(__dirname, 'invalidate-tiles', 'index.ts'),
+      /* eslint-enable no-undef */
+      environment: {
+        DISTRIBUTION_ID: this.distribution.distributionId,
+      },
+    });
+    this.distribution.grantCreateInvalidation(invalidateTiles);
+
+    new events.Rule(this, 'ViewsRefreshed', {
+      description: `Invalidate ${props.domainName} after the materialized views are refreshed`,
+      eventPattern: {
+        source: [viewsRefreshedEvent.source],
+        detailType: [viewsRefreshedEvent.detailType],
+      },
+      targets: [new eventTargets.LambdaFunction(invalidateTiles)],
+    });
+  }
+}
@@ -0,0 +1,90 @@
+import * as fs from 'fs';
+import * as http from 'http';
+import { Pool } from 'pg';
+import { parseTilePath, publicUrlFor, tileJson } from './tiles';
+
+const port = Number(process.env.PORT ?? 3002);
+const publicUrl = process.env.PUBLIC_URL!;
+// tiles.<zoneName> of each custom domain, comma separated
+const customTileHosts = (process.env.CUSTOM_TILE_HOSTS ?? '').split(',').filter((host) => host !== '');
+
+// Connection details are injected from the read role's secret. The pool is
+// recreated by ECS replacing the task when that secret is rotated.
+const pool = new Pool({
+  host: process.env.PGHOST,
+  port: Number(process.env.PGPORT),
+  database: process.env.PGDATABASE,
+  user: process.env.PGUSER,
+  password: process.env.PGPASSWORD,
+  max: Number(process.env.PG_POOL_SIZE ?? 10),
+  ssl: {
+    ca: fs.readFileSync('./global-bundle.pem').toString(),
+  },
+});
+
+async function renderTile(path: string, res: http.ServerResponse) {
+  const tile = parseTilePath(path);
+  if (!tile) {
+    res.writeHead(404).end();
+    return;
+  }
+
+  // Layer ids come from the fixed list in tiles.ts, never from the request
+  const data: Buffer[] = [];
+  for (const layer of tile.layers) {
+    const result = await pool.query(`SELECT ${layer.id}_mvt($1, $2, $3) AS mvt`, [tile.z, tile.x, tile.y]);
+    if (result.rows[0].mvt) {
+      data.push(result.rows[0].mvt);
+    }
+  }
+
+  // Encoded MVT layers can be concatenated into a single tile
+  const body = Buffer.concat(data);
+  res.writeHead(body.length === 0 ? 204 : 200, {
+    'Content-Type': 'application/vnd.mapbox-vector-tile',
+    'Cache-Control': 'public, max-age=3600',
+    'Access-Control-Allow-Origin': '*',
+  }).end(body);
+}
+
+const server = http.createServer((req, res) => {
+  const path = new URL(req.url ?? '/', 'http://localhost').pathname;
+  const started = Date.now();
+
+  // One JSON line per request, read by the 5xx metric filter and Logs Insights.
+  // Load balancer health checks are left out.
+  res.on('finish', () => {
+    if (path !== '/health') {
+      console.log(JSON.stringify({
+        method: req.method,
+        path: path,
+        status: res.statusCode,
+        durationMs: Date.now() - started,
+      }));
+    }
+  });
+
+  if (req.method !== 'GET') {
+    res.writeHead(405).end();
+  } else if (path === '/health') {
+    pool.query('SELECT 1')
+      .then(() => res.writeHead(200).end('ok'))
+      .catch(() => res.writeHead(503).end());
+  } else if (path === '/tiles.json') {
+    res.writeHead(200, {
+      'Content-Type': 'application/json',
+      'Access-Control-Allow-Origin': '*',
+    }).end(JSON.stringify(tileJson(publicUrlFor(req.headers.host, publicUrl, customTileHosts))));
+  } else {
+    renderTile(path, res).catch((error) => {
+      console.error(`Failed to render ${path}`, error);
+      res.writeHead(500).end();
+    });
+  }
+});
+
+server.listen(port, () => console.log(`Tile server listening on ${port}`));
+
+process.on('SIGTERM', () => {
+  server.close(() => pool.end().then(() => process.exit(0)));
+});
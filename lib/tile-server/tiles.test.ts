@@ -0,0 +1,50 @@
+import { parseTilePath, publicUrlFor, tileJson } from './tiles';
+
+describe('parseTilePath', () => {
+  test('parses a single layer tile', () => {
+    const tile = parseTilePath('/roads/5/10/12.mvt');
+    expect(tile?.layers.map((layer) => layer.id)).toEqual(['roads']);
+    expect([tile?.z, tile?.x, tile?.y]).toEqual([5, 10, 12]);
+  });
+
+  test('includes only the layers visible at the zoom in combined tiles', () => {
+    expect(parseTilePath('/8/1/1.mvt')?.layers.map((layer) => layer.id)).toEqual(['roads']);
+    expect(parseTilePath('/14/1/1.mvt')?.layers.map((layer) => layer.id)).toEqual(['buildings', 'roads']);
+  });
+
+  test.each([
+    ['/buildings/11/1/1.mvt', 'below the minimum zoom'],
+    ['/rivers/1/0/0.mvt', 'an unknown layer'],
+    ['/roads/2/4/0.mvt', 'outside the tile grid'],
+    ['/roads/1/0/0.png', 'not a vector tile'],
+  ])('rejects %s as %s', (path) => {
+    expect(parseTilePath(path)).toBeUndefined();
+  });
+});
+
+test('tileJson lists every layer with its zoom range', () => {
+  const document = tileJson('https://tiles.gridwalk.co');
+  expect(document.tiles).toEqual(['https://tiles.gridwalk.co/{z}/{x}/{y}.mvt']);
+  expect(document.minzoom).toBe(0);
+  expect(document.vector_layers).toEqual([
+    expect.objectContaining({ id: 'buildings', minzoom: 12, maxzoom: 22 }),
+    expect.objectContaining({ id: 'roads', minzoom: 0, maxzoom: 22 }),
+  ]);
+});
+
+describe('publicUrlFor', () => {
+  const customTileHosts = ['tiles.maps.example.com'];
+
+  test('links a custom domain to its own tiles host', () => {
+    expect(publicUrlFor('tiles.maps.example.com', 'https://tiles.gridwalk.co', customTileHosts)).toBe('https://tiles.maps.example.com');
+    expect(publicUrlFor('Tiles.Maps.Example.com:443', 'https://tiles.gridwalk.co', customTileHosts)).toBe('https://tiles.maps.example.com');
+  });
+
+  test.each([
+    ['tiles-origin.gridwalk.co'],
+    ['tiles.gridwalk.co'],
+    [undefined],
+  ])('links %s to the tile cache', (host) => {
+    expect(publicUrlFor(host, 'https://tiles.gridwalk.co', customTileHosts)).toBe('https://tiles.gridwalk.co');
+  });
+});
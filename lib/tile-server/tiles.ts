@@ -0,0 +1,85 @@
+// Layers served by the tile server. Each is backed by a <layer>_mvt(z, x, y)
+// function created by the migrations in sql/; the zoom ranges match the
+// ranges those functions return data for.
+export interface TileLayer {
+  id: string;
+  description: string;
+  minzoom: number;
+  maxzoom: number;
+  fields: { [name: string]: string };
+}
+
+export const layers: TileLayer[] = [
+  {
+    id: 'buildings',
+    description: 'OpenStreetMap buildings',
+    minzoom: 12,
+    maxzoom: 22,
+    fields: { osm_id: 'Number', name: 'String', building: 'String' },
+  },
+  {
+    id: 'roads',
+    description: 'OpenStreetMap roads, filtered by class at lower zooms',
+    minzoom: 0,
+    maxzoom: 22,
+    fields: { osm_id: 'Number', name: 'String', highway: 'String' },
+  },
+];
+
+export interface TileRequest {
+  // Layers to include in the tile, in the order they are encoded
+  layers: TileLayer[];
+  z: number;
+  x: number;
+  y: number;
+}
+
+// Parse /{layer}/{z}/{x}/{y}.mvt for a single layer, or /{z}/{x}/{y}.mvt for
+// every layer visible at z. Returns undefined for anything that is not a
+// valid tile address or is outside the layer's zoom range.
+export function parseTilePath(path: string): TileRequest | undefined {
+  const match = /^(?:\/([a-z_]+))?\/(\d+)\/(\d+)\/(\d+)\.mvt$/.exec(path);
+  if (!match) {
+    return undefined;
+  }
+
+  const [z, x, y] = match.slice(2).map(Number);
+  if (x >= 2 ** z || y >= 2 ** z) {
+    return undefined;
+  }
+
+  const requested = match[1] === undefined ? layers : layers.filter((layer) => layer.id === match[1]);
+  const visible = requested.filter((layer) => z >= layer.minzoom && z <= layer.maxzoom);
+  if (visible.length === 0) {
+    return undefined;
+  }
+  return { layers: visible, z, x, y };
+}
+
+// Base URL of the tiles linked from a TileJSON document. Requests to a custom domain's
+// tiles host link back to it; the rest, including CloudFront fetching from the origin
+// host, link to the tile cache at publicUrl.
+export function publicUrlFor(host: string | undefined, publicUrl: string, customTileHosts: string[]): string {
+  const name = host?.toLowerCase().replace(/:\d+$/, '');
+  return name !== undefined && customTileHosts.includes(name) ? `https://${name}` : publicUrl;
+}
+
+// TileJSON 3.0.0 document for the combined /{z}/{x}/{y}.mvt tiles. Each layer
+// can also be requested on its own from /{layer}/{z}/{x}/{y}.mvt.
+export function tileJson(publicUrl: string) {
+  return {
+    tilejson: '3.0.0',
+    name: 'Gridwalk',
+    scheme: 'xyz',
+    tiles: [`${publicUrl}/{z}/{x}/{y}.mvt`],
+    minzoom: Math.min(...layers.map((layer) => layer.minzoom)),
+    maxzoom: Math.max(...layers.map((layer) => layer.maxzoom)),
+    vector_layers: layers.map((layer) => ({
+      id: layer.id,
+      description: layer.description,
+      minzoom: layer.minzoom,
+      maxzoom: layer.maxzoom,
+      fields: layer.fields,
+    })),
+  };
+}
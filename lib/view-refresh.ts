@@ -0,0 +1,103 @@
+import * as path from 'path';
+import * as cdk from 'aws-cdk-lib';
+import * as ec2 from 'aws-cdk-lib/aws-ec2';
+import * as events from 'aws-cdk-lib/aws-events';
+import * as targets from 'aws-cdk-lib/aws-events-targets';
+import * as lambda from 'aws-cdk-lib/aws-lambda';
+import * as nodejs from 'aws-cdk-lib/aws-lambda-nodejs';
+import { Construct } from 'constructs';
+import { Database } from './data';
+import { viewsRefreshedEvent } from './tile-cache';
+
+export interface ViewRefreshSchedule {
+  // Used in the rule's construct id, e.g. Nightly
+  name: string;
+  // EventBridge cron() or rate() expression, in UTC
+  schedule: string;
+  // Materialized views refreshed together in each run
+  views: string[];
+}
+
+export interface ViewRefreshProps {
+  network: {
+    vpc: ec2.IVpc;
+    computeSubnets: ec2.SubnetSelection;
+  };
+  database: Database;
+  databaseName: string;
+  schemaName: string;
+  schedules: ViewRefreshSchedule[];
+}
+
+// Refreshes the materialized views behind the tiles on a schedule
+export class ViewRefresh extends Construct {
+  public readonly refreshFunction: nodejs.NodejsFunction;
+
+  constructor(scope: Construct, id: string, props: ViewRefreshProps) {
+    super(scope, id);
+
+    const refreshSecurityGroup = new ec2.SecurityGroup(this, 'RefreshSecurityGroup', {
+      vpc: props.network.vpc,
+      description: 'Used by the Materialized View Refresh Lambda Function',
+      allowAllOutbound: true,
+      disableInlineRules: true
+    });
+
+    this.refreshFunction = new nodejs.NodejsFunction(this, 'RefreshViews', {
+      runtime: lambda.Runtime.NODEJS_20_X,
+      architecture: lambda.Architecture.ARM_64,
+      timeout: cdk.Duration.minutes(15),
+      // A failed refresh is picked up by the next scheduled run rather than retried straight away
+      retryAttempts: 0,
+      /* eslint-disable no-undef */
+      projectRoot: path.join(__dirname, 'init-db'),
+      depsLockFilePath: path.join(__dirname, 'init-db', 'package-lock.json'),
+      entry: path.join(__dirname, 'init-db', 'refresh-views.ts'),
+      /* eslint-enable no-undef */
+      bundling: {
+        nodeModules: ['pg'],
+        commandHooks: {
+          afterBundling: (inputDir: string, outputDir: string): string[] => [
+            `cp ${inputDir}/global-bundle.pem ${outputDir}/global-bundle.pem`,
+          ],
+          // eslint-disable-next-line
+          beforeBundling: (inputDir: string, outputDir: string): string[] => [],
+          // eslint-disable-next-line
+          beforeInstall: (inputDir: string, outputDir: string): string[] => [],
+        },
+      },
+      environment: {
+        SECRET_ARN: props.database.gisadminSecret.secretArn,
+        DATABASE_NAME: props.databaseName,
+        SCHEMA_NAME: props.schemaName,
+        EVENT_SOURCE: viewsRefreshedEvent.source,
+        EVENT_DETAIL_TYPE: viewsRefreshedEvent.detailType,
+      },
+      vpc: props.network.vpc,
+      vpcSubnets: props.network.computeSubnets,
+      securityGroups: [refreshSecurityGroup]
+    });
+
+    // The views are owned by gis_admin, which created them in the migrations
+    props.database.gisadminSecret.grantRead(this.refreshFunction);
+    events.EventBus.grantAllPutEvents(this.refreshFunction);
+
+    props.database.databaseSecurityGroup.addIngressRule(
+      refreshSecurityGroup,
+      ec2.Port.tcp(5432),
+      "Allow inbound to database from view refresh function"
+    );
+
+    for (const schedule of props.schedules) {
+      new events.Rule(this, `${schedule.name}Schedule`, {
+        description: `Refresh ${schedule.views.join(', ')}`,
+        schedule: events.Schedule.expression(schedule.schedule),
+        targets: [
+          new targets.LambdaFunction(this.refreshFunction, {
+            event: events.RuleTargetInput.fromObject({ views: schedule.views }),
+          }),
+        ],
+      });
+    }
+  }
+}
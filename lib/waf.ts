@@ -0,0 +1,201 @@
+import * as cdk from 'aws-cdk-lib';
+import * as elbv2 from 'aws-cdk-lib/aws-elasticloadbalancingv2';
+import * as iam from 'aws-cdk-lib/aws-iam';
+import * as logs from 'aws-cdk-lib/aws-logs';
+import * as s3 from 'aws-cdk-lib/aws-s3';
+import * as wafv2 from 'aws-cdk-lib/aws-wafv2';
+import { Construct } from 'constructs';
+
+export interface RateLimit {
+  // Used in the rule name, e.g. RateLimitApi
+  name: string;
+  // Host headers the limit applies to, counted together per client IP
+  hosts: string[];
+  // Requests per client IP in any 5 minute window
+  limit: number;
+}
+
+export type WafLogDestination = 's3' | 'cloudwatch';
+
+export interface WafProps {
+  loadBalancer: elbv2.IApplicationLoadBalancer;
+  rateLimits: RateLimit[];
+  // CIDR ranges; allowed addresses skip every other rule
+  allowedIps: string[];
+  blockedIps: string[];
+  // Count matching requests rather than blocking them
+  countOnly: boolean;
+  // Rules to count while the rest of the web ACL blocks, e.g. RateLimitApi
+  countOnlyRules: string[];
+  logDestination: WafLogDestination;
+  logRetention: logs.RetentionDays;
+}
+
+// AWS managed rule groups, in the order they are evaluated after the IP and rate rules
+const managedRuleGroups = [
+  'AWSManagedRulesCommonRuleSet',
+  'AWSManagedRulesKnownBadInputsRuleSet',
+];
+
+// Web ACL in front of the public load balancer
+export class Waf extends Construct {
+  public readonly webAcl: wafv2.CfnWebACL;
+
+  constructor(scope: Construct, id: string, props: WafProps) {
+    super(scope, id);
+    const stack = cdk.Stack.of(this);
+
+    const visibility = (metricName: string): wafv2.CfnWebACL.VisibilityConfigProperty => ({
+      cloudWatchMetricsEnabled: true,
+      metricName: metricName,
+      sampledRequestsEnabled: true,
+    });
+    const counted = (name: string) => props.countOnly || props.countOnlyRules.includes(name);
+
+    const rules: wafv2.CfnWebACL.RuleProperty[] = [];
+    const addRule = (name: string, statement: wafv2.CfnWebACL.StatementProperty, action: 'allow' | 'block' | 'managed') => {
+      const rule: wafv2.CfnWebACL.RuleProperty = {
+        name: name,
+        priority: rules.length,
+        statement: statement,
+        visibilityConfig: visibility(name),
+      };
+      if (action === 'managed') {
+        rules.push({ ...rule, overrideAction: counted(name) ? { count: {} } : { none: {} } });
+      } else if (action === 'allow') {
+        rules.push({ ...rule, action: { allow: {} } });
+      } else {
+        rules.push({ ...rule, action: counted(name) ? { count: {} } : { block: {} } });
+      }
+    };
+
+    // IPv4 and IPv6 ranges need separate IP sets
+    const ipSetStatement = (name: string, addresses: string[]): wafv2.CfnWebACL.StatementProperty | undefined => {
+      const statements = (['IPV4', 'IPV6'] as const)
+        .map((version) => ({
+          version: version,
+          addresses: addresses.filter((address) => address.includes(':') === (version === 'IPV6')),
+        }))
+        .filter((set) => set.addresses.length > 0)
+        .map((set) => ({
+          ipSetReferenceStatement: {
+            arn: new wafv2.CfnIPSet(this, `${name}${set.version === 'IPV4' ? 'V4' : 'V6'}`, {
+              scope: 'REGIONAL',
+              ipAddressVersion: set.version,
+              addresses: set.addresses,
+            }).attrArn,
+          },
+        }));
+      if (statements.length === 0) {
+        return undefined;
+      }
+      return statements.length === 1 ? statements[0] : { orStatement: { statements: statements } };
+    };
+
+    const allowed = ipSetStatement('AllowedIps', props.allowedIps);
+    if (allowed) {
+      addRule('AllowList', allowed, 'allow');
+    }
+    const blocked = ipSetStatement('BlockedIps', props.blockedIps);
+    if (blocked) {
+      addRule('DenyList', blocked, 'block');
+    }
+
+    addRule('AWSManagedRulesAmazonIpReputationList', {
+      managedRuleGroupStatement: { vendorName: 'AWS', name: 'AWSManagedRulesAmazonIpReputationList' },
+    }, 'managed');
+
+    for (const rateLimit of props.rateLimits) {
+      const hostStatements = rateLimit.hosts.map((host) => ({
+        byteMatchStatement: {
+          fieldToMatch: { singleHeader: { Name: 'host' } },
+          positionalConstraint: 'EXACTLY',
+          searchString: host,
+          textTransformations: [{ priority: 0, type: 'LOWERCASE' }],
+        },
+      }));
+      addRule(`RateLimit${rateLimit.name}`, {
+        rateBasedStatement: {
+          limit: rateLimit.limit,
+          aggregateKeyType: 'IP',
+          scopeDownStatement: hostStatements.length === 1 ? hostStatements[0] : { orStatement: { statements: hostStatements } },
+        },
+      }, 'block');
+    }
+
+    for (const group of managedRuleGroups) {
+      addRule(group, { managedRuleGroupStatement: { vendorName: 'AWS', name: group } }, 'managed');
+    }
+    const ruleNames = rules.map((rule) => rule.name);
+    for (const name of props.countOnlyRules) {
+      if (!ruleNames.includes(name)) {
+        throw new Error(`countOnlyRules lists ${name}, which is not a rule in the web ACL (${ruleNames.join(', ')})`);
+      }
+    }
+
+    this.webAcl = new wafv2.CfnWebACL(this, 'WebAcl', {
+      scope: 'REGIONAL',
+      defaultAction: { allow: {} },
+      visibilityConfig: visibility(`${stack.stackName}WebAcl`),
+      rules: rules,
+    });
+
+    new wafv2.CfnWebACLAssociation(this, 'Association', {
+      resourceArn: props.loadBalancer.loadBalancerArn,
+      webAclArn: this.webAcl.attrArn,
+    });
+
+    // WAF only delivers to destinations named aws-waf-logs-*
+    const logName = `aws-waf-logs-${stack.stackName.toLowerCase()}`;
+    let logDestination: string;
+    if (props.logDestination === 's3') {
+      const bucket = new s3.Bucket(this, 'LogBucket', {
+        bucketName: `${logName}-${stack.account}`,
+        blockPublicAccess: s3.BlockPublicAccess.BLOCK_ALL,
+        encryption: s3.BucketEncryption.S3_MANAGED,
+        enforceSSL: true,
+        lifecycleRules: [{ expiration: cdk.Duration.days(props.logRetention) }],
+      });
+
+      // Declared here rather than added by WAF, which would be undone by the next deploy
+      const logDelivery = new iam.ServicePrincipal('delivery.logs.amazonaws.com');
+      bucket.addToResourcePolicy(new iam.PolicyStatement({
+        principals: [logDelivery],
+        actions: ['s3:PutObject'],
+        resources: [bucket.arnForObjects(`AWSLogs/${stack.account}/*`)],
+        conditions: {
+          StringEquals: { 's3:x-amz-acl': 'bucket-owner-full-control', 'aws:SourceAccount': stack.account },
+        },
+      }));
+      bucket.addToResourcePolicy(new iam.PolicyStatement({
+        principals: [logDelivery],
+        actions: ['s3:GetBucketAcl'],
+        resources: [bucket.bucketArn],
+        conditions: { StringEquals: { 'aws:SourceAccount': stack.account } },
+      }));
+      logDestination = bucket.bucketArn;
+    } else {
+      const logGroup = new logs.LogGroup(this, 'LogGroup', {
+        logGroupName: logName,
+        retention: props.logRetention,
+      });
+      // WAF wants the log group ARN without the trailing :*
+      logDestination = stack.formatArn({
+        service: 'logs',
+        resource: 'log-group',
+        resourceName: logGroup.logGroupName,
+        arnFormat: cdk.ArnFormat.COLON_RESOURCE_NAME,
+      });
+    }
+
+    new wafv2.CfnLoggingConfiguration(this, 'Logging', {
+      resourceArn: this.webAcl.attrArn,
+      logDestinationConfigs: [logDestination],
+      // app. and api. carry session cookies and bearer tokens
+      redactedFields: [
+        { singleHeader: { Name: 'authorization' } },
+        { singleHeader: { Name: 'cookie' } },
+      ],
+    });
+  }
+}
@@ -0,0 +1,468 @@
+import * as cdk from "aws-cdk-lib";
+import * as appscaling from "aws-cdk-lib/aws-applicationautoscaling";
+import * as cloudwatch from "aws-cdk-lib/aws-cloudwatch";
+import * as codedeploy from "aws-cdk-lib/aws-codedeploy";
+import * as ec2 from "aws-cdk-lib/aws-ec2";
+import * as ecs from "aws-cdk-lib/aws-ecs";
+import * as elbv2 from "aws-cdk-lib/aws-elasticloadbalancingv2";
+import * as events from "aws-cdk-lib/aws-events";
+import * as targets from "aws-cdk-lib/aws-events-targets";
+import * as iam from "aws-cdk-lib/aws-iam";
+import * as logs from "aws-cdk-lib/aws-logs";
+import * as secretsmanager from "aws-cdk-lib/aws-secretsmanager";
+import * as cr from "aws-cdk-lib/custom-resources";
+import { Construct } from "constructs";
+import { TableAccess, tableAccessStatements } from "./table-access";
+
+export interface ScheduledScaling {
+  name: string;
+  // cron(...), rate(...) or at(...) expression
+  schedule: string;
+  timeZone?: string;
+  minCapacity?: number;
+  maxCapacity?: number;
+}
+
+export interface StepScaling {
+  namespace: string;
+  metricName: string;
+  dimensions?: { [name: string]: string };
+  statistic?: string;
+  periodSeconds?: number;
+  // Change in task count for each band of metric values
+  steps: { lower?: number; upper?: number; change: number }[];
+}
+
+export interface ServiceScaling {
+  minCapacity: number;
+  maxCapacity: number;
+  // Target tracking, in percent for CPU and memory
+  cpuTarget?: number;
+  memoryTarget?: number;
+  requestsPerTarget?: number;
+  schedules?: ScheduledScaling[];
+  stepScaling?: StepScaling;
+}
+
+// How CodeDeploy moves production traffic to the new tasks
+export type TrafficShift = "allAtOnce" | "canary" | "linear";
+
+export interface BlueGreenDeployment {
+  trafficShift: TrafficShift;
+  // Keep the old tasks this long after the shift, so that a rollback is immediate
+  terminationWaitMinutes: number;
+}
+
+const deploymentConfigs: { [shift in TrafficShift]: codedeploy.IEcsDeploymentConfig } = {
+  allAtOnce: codedeploy.EcsDeploymentConfig.ALL_AT_ONCE,
+  canary: codedeploy.EcsDeploymentConfig.CANARY_10PERCENT_5MINUTES,
+  linear: codedeploy.EcsDeploymentConfig.LINEAR_10PERCENT_EVERY_1MINUTES,
+};
+
+export interface WebServiceProps {
+  vpc: ec2.IVpc;
+  subnets: ec2.SubnetSelection;
+  cluster: ecs.ICluster;
+  serviceName: string;
+  serviceConnectNamespace: string;
+  listener: elbv2.IApplicationListener;
+  // Routes to the replacement tasks during a blue/green deployment
+  testListener?: elbv2.IApplicationListener;
+
+  image: ecs.ContainerImage;
+  cpu: number;
+  memoryLimitMiB: number;
+  desiredCount: number;
+  scaling?: ServiceScaling;
+  // Deploy with CodeDeploy rather than a rolling update with the circuit breaker
+  blueGreen?: BlueGreenDeployment;
+
+  // Container port, also used for the target group and ALB ingress
+  port: number;
+  healthCheckPath: string;
+  // Listener rule routing traffic to this service
+  conditions: elbv2.ListenerCondition[];
+  priority: number;
+  // Logical IDs the service and its listener rule were deployed with before they moved into
+  // this construct. A new logical ID would make CloudFormation create the replacement first,
+  // which fails on the fixed service name and the listener rule priority.
+  deployedLogicalIds?: { service: string; listenerRule: string };
+
+  environment?: { [key: string]: string };
+  secrets?: { [key: string]: ecs.Secret };
+  // Tables the service uses, with the actions and indexes it needs
+  tableAccess?: TableAccess[];
+  logRetention: logs.RetentionDays;
+}
+
+// A Fargate service behind the shared HTTPS listener
+export class WebService extends Construct {
+  public readonly taskDefinition: ecs.FargateTaskDefinition;
+  public readonly container: ecs.ContainerDefinition;
+  public readonly securityGroup: ec2.SecurityGroup;
+  public readonly service: ecs.FargateService;
+  public readonly targetGroup: elbv2.ApplicationTargetGroup;
+  // Takes turns with targetGroup to serve production traffic under blue/green deployments
+  public readonly greenTargetGroup?: elbv2.ApplicationTargetGroup;
+  public readonly deploymentGroup?: codedeploy.EcsDeploymentGroup;
+  public readonly logGroup: logs.LogGroup;
+  private readonly listener: elbv2.IApplicationListener;
+  private readonly testListener?: elbv2.IApplicationListener;
+  // CreateDeployment request for the current task definition, for blue/green services
+  private deployment?: { parameters: { [key: string]: unknown }; policy: iam.PolicyStatement };
+
+  constructor(scope: Construct, id: string, props: WebServiceProps) {
+    super(scope, id);
+
+    if (props.blueGreen && !props.testListener) {
+      throw new Error(`${props.serviceName} uses blue/green deployments, which need a test listener`);
+    }
+
+    this.taskDefinition = new ecs.FargateTaskDefinition(this, "TaskDef", {
+      memoryLimitMiB: props.memoryLimitMiB,
+      cpu: props.cpu,
+      runtimePlatform: {
+        cpuArchitecture: ecs.CpuArchitecture.ARM64,
+      },
+    });
+
+    this.logGroup = new logs.LogGroup(this, "LogGroup", {
+      retention: props.logRetention,
+    });
+
+    this.container = this.taskDefinition.addContainer("Container", {
+      image: props.image,
+      environment: props.environment,
+      secrets: props.secrets,
+      logging: new ecs.AwsLogDriver({ streamPrefix: props.serviceName, logGroup: this.logGroup }),
+    });
+
+    this.container.addPortMappings({
+      containerPort: props.port,
+      protocol: ecs.Protocol.TCP,
+    });
+
+    this.securityGroup = new ec2.SecurityGroup(this, "SecurityGroup", {
+      vpc: props.vpc,
+      description: `Used by ${props.serviceName} Service`,
+      allowAllOutbound: true,
+      disableInlineRules: true,
+    });
+
+    // Allow inbound traffic on the container port from the ALB's security group
+    this.securityGroup.addIngressRule(
+      ec2.SecurityGroup.fromSecurityGroupId(
+        this,
+        "AlbSecurityGroup",
+        props.listener.connections.securityGroups[0].securityGroupId,
+      ),
+      ec2.Port.tcp(props.port),
+      "Allow inbound traffic from ALB",
+    );
+
+    this.service = new ecs.FargateService(this, "Service", {
+      cluster: props.cluster,
+      taskDefinition: this.taskDefinition,
+      desiredCount: props.desiredCount,
+      serviceName: props.serviceName,
+      vpcSubnets: props.subnets,
+      securityGroups: [this.securityGroup],
+      enableECSManagedTags: true,
+      enableExecuteCommand: true,
+      propagateTags: ecs.PropagatedTagSource.TASK_DEFINITION,
+      // Service Connect only works with the ECS deployment controller
+      serviceConnectConfiguration: props.blueGreen ? undefined : {
+        namespace: props.serviceConnectNamespace,
+      },
+      ...(props.blueGreen ? {
+        deploymentController: { type: ecs.DeploymentControllerType.CODE_DEPLOY },
+      } : {
+        circuitBreaker: { enable: true, rollback: true },
+      }),
+    });
+
+    if (props.deployedLogicalIds) {
+      (this.service.node.defaultChild as ecs.CfnService).overrideLogicalId(props.deployedLogicalIds.service);
+    }
+
+    this.targetGroup = this.createTargetGroup("TargetGroup", props);
+    this.service.attachToApplicationTargetGroup(this.targetGroup);
+
+    this.listener = props.listener;
+    this.testListener = props.testListener;
+    if (props.blueGreen) {
+      this.greenTargetGroup = this.createTargetGroup("GreenTargetGroup", props);
+    }
+
+    // Add the target group to the listener
+    const listenerRule = this.addListenerRule("ListenerRule", props.priority, props.conditions);
+    if (props.deployedLogicalIds) {
+      (listenerRule.node.defaultChild as elbv2.CfnListenerRule).overrideLogicalId(props.deployedLogicalIds.listenerRule);
+    }
+
+    if (props.blueGreen) {
+      this.deploymentGroup = this.addBlueGreenDeployment(props.blueGreen, props);
+    }
+
+    for (const access of props.tableAccess ?? []) {
+      for (const statement of tableAccessStatements(access)) {
+        this.taskDefinition.addToTaskRolePolicy(statement);
+      }
+    }
+
+    if (props.scaling) {
+      this.addScaling(props.scaling);
+    }
+  }
+
+  // Route more traffic to the service, e.g. another domain. Blue/green services get a
+  // matching Test<id> rule on the test listener; CodeDeploy swaps the target groups of both.
+  public addListenerRule(id: string, priority: number, conditions: elbv2.ListenerCondition[]): elbv2.ApplicationListenerRule {
+    const rule = new elbv2.ApplicationListenerRule(this, id, {
+      listener: this.listener,
+      priority: priority,
+      conditions: conditions,
+      targetGroups: [this.targetGroup],
+    });
+
+    if (this.greenTargetGroup) {
+      new elbv2.ApplicationListenerRule(this, `Test${id}`, {
+        listener: this.testListener!,
+        priority: priority,
+        conditions: conditions,
+        targetGroups: [this.greenTargetGroup],
+      });
+    }
+    return rule;
+  }
+
+  // Start new tasks after the secret is rotated, as secrets are only read when a task starts
+  public redeployOnSecretRotation(id: string, secret: secretsmanager.ISecret) {
+    new events.Rule(this, id, {
+      eventPattern: {
+        source: ["aws.secretsmanager"],
+        detailType: ["AWS Service Event via CloudTrail"],
+        detail: {
+          eventName: ["RotationSucceeded"],
+          additionalEventData: {
+            SecretId: [secret.secretArn],
+          },
+        },
+      },
+      // CodeDeploy owns the tasks of a blue/green service, so it redeploys the current revision
+      targets: [
+        this.deployment ? new targets.AwsApi({
+          service: "CodeDeploy",
+          action: "createDeployment",
+          parameters: this.deployment.parameters,
+          policyStatement: this.deployment.policy,
+        }) : new targets.AwsApi({
+          service: "ECS",
+          action: "updateService",
+          parameters: {
+            cluster: this.service.cluster.clusterName,
+            service: this.service.serviceName,
+            forceNewDeployment: true,
+          },
+          policyStatement: new iam.PolicyStatement({
+            actions: ["ecs:UpdateService"],
+            resources: [this.service.serviceArn],
+          }),
+        }),
+      ],
+    });
+  }
+
+  private createTargetGroup(id: string, props: WebServiceProps): elbv2.ApplicationTargetGroup {
+    return new elbv2.ApplicationTargetGroup(this, id, {
+      vpc: props.vpc,
+      port: props.port,
+      protocol: elbv2.ApplicationProtocol.HTTP,
+      targetType: elbv2.TargetType.IP,
+      healthCheck: {
+        path: props.healthCheckPath,
+        interval: cdk.Duration.seconds(30),
+        timeout: cdk.Duration.seconds(3),
+      },
+    });
+  }
+
+  private addBlueGreenDeployment(blueGreen: BlueGreenDeployment, props: WebServiceProps): codedeploy.EcsDeploymentGroup {
+    const blue = this.targetGroup.metrics;
+    const green = this.greenTargetGroup!.metrics;
+    const period = cdk.Duration.minutes(1);
+
+    // Either target group can be serving production, so the alarms watch both
+    const rollbackAlarm = (id: string, expression: string, usingMetrics: { [id: string]: cloudwatch.IMetric }, threshold: number) =>
+      new cloudwatch.Alarm(this, id, {
+        metric: new cloudwatch.MathExpression({ expression: expression, usingMetrics: usingMetrics, period: period }),
+        threshold: threshold,
+        evaluationPeriods: 2,
+        comparisonOperator: cloudwatch.ComparisonOperator.GREATER_THAN_OR_EQUAL_TO_THRESHOLD,
+        treatMissingData: cloudwatch.TreatMissingData.NOT_BREACHING,
+        alarmDescription: `Rolls back ${props.serviceName} deployments`,
+      });
+
+    const deploymentGroup = new codedeploy.EcsDeploymentGroup(this, "DeploymentGroup", {
+      service: this.service,
+      blueGreenDeploymentConfig: {
+        blueTargetGroup: this.targetGroup,
+        greenTargetGroup: this.greenTargetGroup!,
+        listener: props.listener,
+        testListener: props.testListener!,
+        terminationWaitTime: cdk.Duration.minutes(blueGreen.terminationWaitMinutes),
+      },
+      deploymentConfig: deploymentConfigs[blueGreen.trafficShift],
+      alarms: [
+        rollbackAlarm("Deployment5xxAlarm", "FILL(blue, 0) + FILL(green, 0)", {
+          blue: blue.httpCodeTarget(elbv2.HttpCodeTarget.TARGET_5XX_COUNT, { period: period }),
+          green: green.httpCodeTarget(elbv2.HttpCodeTarget.TARGET_5XX_COUNT, { period: period }),
+        }, 5),
+        rollbackAlarm("DeploymentUnhealthyAlarm", "MAX([FILL(blue, 0), FILL(green, 0)])", {
+          blue: blue.unhealthyHostCount({ period: period }),
+          green: green.unhealthyHostCount({ period: period }),
+        }, 1),
+      ],
+      autoRollback: {
+        failedDeployment: true,
+        stoppedDeployment: true,
+        deploymentInAlarm: true,
+      },
+    });
+
+    // CloudFormation leaves the task definition of a CODE_DEPLOY service alone, so
+    // each new revision is deployed through CodeDeploy
+    const appSpec = cdk.Stack.of(this).toJsonString({
+      version: 0.0,
+      Resources: [{
+        TargetService: {
+          Type: "AWS::ECS::Service",
+          Properties: {
+            TaskDefinition: this.taskDefinition.taskDefinitionArn,
+            LoadBalancerInfo: { ContainerName: this.container.containerName, ContainerPort: props.port },
+          },
+        },
+      }],
+    });
+    this.deployment = {
+      parameters: {
+        applicationName: deploymentGroup.application.applicationName,
+        deploymentGroupName: deploymentGroup.deploymentGroupName,
+        revision: {
+          revisionType: "AppSpecContent",
+          appSpecContent: { content: appSpec },
+        },
+      },
+      policy: new iam.PolicyStatement({
+        actions: [
+          "codedeploy:CreateDeployment",
+          "codedeploy:GetDeploymentConfig",
+          "codedeploy:GetApplicationRevision",
+          "codedeploy:RegisterApplicationRevision",
+        ],
+        resources: [
+          deploymentGroup.deploymentGroupArn,
+          deploymentGroup.deploymentConfig.deploymentConfigArn,
+          deploymentGroup.application.applicationArn,
+        ],
+      }),
+    };
+
+    new cr.AwsCustomResource(this, "Deployment", {
+      onUpdate: {
+        service: "CodeDeploy",
+        action: "createDeployment",
+        parameters: this.deployment.parameters,
+        physicalResourceId: cr.PhysicalResourceId.fromResponse("deploymentId"),
+      },
+      policy: cr.AwsCustomResourcePolicy.fromStatements([this.deployment.policy]),
+    });
+
+    return deploymentGroup;
+  }
+
+  // CodeDeploy moves the traffic between the two target groups, so either may be idle and
+  // the requests per target of both are added up. The tasks of both task sets scale together,
+  // so the sum is also right while a canary or linear deployment splits the traffic.
+  // CDK only tracks a single metric, so the metric math is set on the CloudFormation policy.
+  private scaleOnBlueGreenRequestCount(taskCount: ecs.ScalableTaskCount, requestsPerTarget: number) {
+    const [blue, green] = [this.targetGroup, this.greenTargetGroup!].map((targetGroup) =>
+      targetGroup.metrics.requestCountPerTarget());
+    taskCount.scaleToTrackCustomMetric("RequestScaling", {
+      metric: blue,
+      targetValue: requestsPerTarget,
+    });
+    const policy = taskCount.node.findChild("Target").node.findChild("RequestScaling");
+
+    const metricStat = (metric: cloudwatch.Metric) => ({
+      Metric: {
+        Namespace: metric.namespace,
+        MetricName: metric.metricName,
+        Dimensions: Object.entries(metric.dimensions ?? {}).map(([name, value]) => ({ Name: name, Value: value })),
+      },
+      Stat: "Sum",
+    });
+    const spec = "TargetTrackingScalingPolicyConfiguration.CustomizedMetricSpecification";
+    const cfnPolicy = policy.node.defaultChild as appscaling.CfnScalingPolicy;
+    for (const property of ["MetricName", "Namespace", "Dimensions", "Statistic", "Unit"]) {
+      cfnPolicy.addPropertyDeletionOverride(`${spec}.${property}`);
+    }
+    cfnPolicy.addPropertyOverride(`${spec}.Metrics`, [
+      { Id: "blue", MetricStat: metricStat(blue), ReturnData: false },
+      { Id: "green", MetricStat: metricStat(green), ReturnData: false },
+      { Id: "requests", Expression: "FILL(blue, 0) + FILL(green, 0)", Label: "RequestCountPerTarget", ReturnData: true },
+    ]);
+  }
+
+  private addScaling(scaling: ServiceScaling) {
+    const taskCount = this.service.autoScaleTaskCount({
+      minCapacity: scaling.minCapacity,
+      maxCapacity: scaling.maxCapacity,
+    });
+
+    if (scaling.cpuTarget !== undefined) {
+      taskCount.scaleOnCpuUtilization("CpuScaling", {
+        targetUtilizationPercent: scaling.cpuTarget,
+      });
+    }
+
+    if (scaling.memoryTarget !== undefined) {
+      taskCount.scaleOnMemoryUtilization("MemoryScaling", {
+        targetUtilizationPercent: scaling.memoryTarget,
+      });
+    }
+
+    if (scaling.requestsPerTarget !== undefined && this.greenTargetGroup) {
+      this.scaleOnBlueGreenRequestCount(taskCount, scaling.requestsPerTarget);
+    } else if (scaling.requestsPerTarget !== undefined) {
+      taskCount.scaleOnRequestCount("RequestScaling", {
+        requestsPerTarget: scaling.requestsPerTarget,
+        targetGroup: this.targetGroup,
+      });
+    }
+
+    for (const schedule of scaling.schedules ?? []) {
+      taskCount.scaleOnSchedule(schedule.name, {
+        schedule: appscaling.Schedule.expression(schedule.schedule),
+        timeZone: schedule.timeZone ? cdk.TimeZone.of(schedule.timeZone) : undefined,
+        minCapacity: schedule.minCapacity,
+        maxCapacity: schedule.maxCapacity,
+      });
+    }
+
+    if (scaling.stepScaling) {
+      const step = scaling.stepScaling;
+      taskCount.scaleOnMetric("StepScaling", {
+        metric: new cloudwatch.Metric({
+          namespace: step.namespace,
+          metricName: step.metricName,
+          dimensionsMap: step.dimensions,
+          statistic: step.statistic ?? "Average",
+          period: cdk.Duration.seconds(step.periodSeconds ?? 60),
+        }),
+        scalingSteps: step.steps,
+        adjustmentType: appscaling.AdjustmentType.CHANGE_IN_CAPACITY,
+      });
+    }
+  }
+}
@@ -0,0 +1,17 @@
+-- Source tables for the tile views, populated by the data loads
+CREATE TABLE IF NOT EXISTS buildings (
+    osm_id bigint,
+    name text,
+    building text,
+    geom geometry(Geometry, 3857)
+);
+
+CREATE TABLE IF NOT EXISTS roads (
+    osm_id bigint,
+    name text,
+    highway text,
+    geom geometry(Geometry, 3857)
+);
+
+CREATE INDEX IF NOT EXISTS buildings_geom_idx ON buildings USING GIST (geom);
+CREATE INDEX IF NOT EXISTS roads_geom_idx ON roads USING GIST (geom);
@@ -1,5 +1,3 @@
-BEGIN;
-
 -- Materialized view for accommodation buildings
 CREATE MATERIALIZED VIEW IF NOT EXISTS buildings_up_to_accommodation AS
 SELECT osm_id, name, building, geom
@@ -68,5 +66,3 @@ BEGIN
     RETURN mvt;
 END;
 $$ LANGUAGE plpgsql STABLE PARALLEL SAFE;
-
-COMMIT;
@@ -1,5 +1,3 @@
-BEGIN;
-
 -- Create materialized views
 CREATE MATERIALIZED VIEW IF NOT EXISTS roads_all AS
 SELECT osm_id, name, highway, geom
@@ -68,5 +66,3 @@ BEGIN
     RETURN mvt;
 END;
 $$ LANGUAGE plpgsql STABLE PARALLEL SAFE;
-
-COMMIT;
@@ -0,0 +1,79 @@
+-- REFRESH MATERIALIZED VIEW CONCURRENTLY needs a unique index on every view.
+-- osm_id is not unique (split ways and multipolygon parts share it), so the
+-- source tables get a surrogate key that the views carry through.
+ALTER TABLE buildings ADD COLUMN IF NOT EXISTS id bigint GENERATED ALWAYS AS IDENTITY PRIMARY KEY;
+ALTER TABLE roads ADD COLUMN IF NOT EXISTS id bigint GENERATED ALWAYS AS IDENTITY PRIMARY KEY;
+
+-- Materialized views cannot gain columns, so they are recreated with the key.
+-- The *_mvt functions query the views dynamically and are unaffected.
+DROP MATERIALIZED VIEW IF EXISTS buildings_up_to_accommodation;
+DROP MATERIALIZED VIEW IF EXISTS buildings_up_to_commercial;
+DROP MATERIALIZED VIEW IF EXISTS buildings_all;
+DROP MATERIALIZED VIEW IF EXISTS roads_all;
+DROP MATERIALIZED VIEW IF EXISTS roads_up_to_residential;
+DROP MATERIALIZED VIEW IF EXISTS roads_up_to_secondary;
+DROP MATERIALIZED VIEW IF EXISTS roads_up_to_trunk;
+DROP MATERIALIZED VIEW IF EXISTS roads_motorways;
+
+-- 'retail' and 'supermarket' were previously missing a comma between them
+CREATE MATERIALIZED VIEW buildings_up_to_accommodation AS
+SELECT id, osm_id, name, building, geom
+FROM buildings
+WHERE building IN ('apartments', 'barracks', 'bungalow', 'cabin', 'detached',
+                   'annexe', 'dormitory', 'farm', 'ger', 'hotel', 'house',
+                   'houseboat', 'residential', 'semidetached_house', 'static_caravan',
+                   'stilt_house', 'terrace', 'tree_house', 'trullo',
+                   'commercial', 'industrial', 'kiosk', 'office', 'retail',
+                   'supermarket', 'warehouse');
+
+CREATE MATERIALIZED VIEW buildings_up_to_commercial AS
+SELECT id, osm_id, name, building, geom
+FROM buildings
+WHERE building IN ('commercial', 'industrial', 'kiosk', 'office', 'retail',
+                   'supermarket', 'warehouse');
+
+CREATE MATERIALIZED VIEW buildings_all AS
+SELECT id, osm_id, name, building, geom
+FROM buildings;
+
+CREATE MATERIALIZED VIEW roads_all AS
+SELECT id, osm_id, name, highway, geom
+FROM roads;
+
+CREATE MATERIALIZED VIEW roads_up_to_residential AS
+SELECT id, osm_id, name, highway, ST_Simplify(geom, 10) AS geom
+FROM roads
+WHERE highway IN ('motorway', 'trunk', 'primary', 'secondary', 'tertiary', 'residential');
+
+CREATE MATERIALIZED VIEW roads_up_to_secondary AS
+SELECT id, osm_id, name, highway, ST_Simplify(geom, 50) AS geom
+FROM roads
+WHERE highway IN ('motorway', 'trunk', 'primary', 'secondary');
+
+CREATE MATERIALIZED VIEW roads_up_to_trunk AS
+SELECT id, osm_id, name, highway, ST_Simplify(geom, 200) AS geom
+FROM roads
+WHERE highway IN ('motorway', 'trunk');
+
+CREATE MATERIALIZED VIEW roads_motorways AS
+SELECT id, osm_id, name, highway, ST_Simplify(geom, 500) AS geom
+FROM roads
+WHERE highway = 'motorway';
+
+CREATE UNIQUE INDEX buildings_up_to_accommodation_id_idx ON buildings_up_to_accommodation (id);
+CREATE UNIQUE INDEX buildings_up_to_commercial_id_idx ON buildings_up_to_commercial (id);
+CREATE UNIQUE INDEX buildings_all_id_idx ON buildings_all (id);
+CREATE UNIQUE INDEX roads_all_id_idx ON roads_all (id);
+CREATE UNIQUE INDEX roads_up_to_residential_id_idx ON roads_up_to_residential (id);
+CREATE UNIQUE INDEX roads_up_to_secondary_id_idx ON roads_up_to_secondary (id);
+CREATE UNIQUE INDEX roads_up_to_trunk_id_idx ON roads_up_to_trunk (id);
+CREATE UNIQUE INDEX roads_motorways_id_idx ON roads_motorways (id);
+
+CREATE INDEX idx_buildings_up_to_accommodation_geom ON buildings_up_to_accommodation USING GIST (geom);
+CREATE INDEX idx_buildings_up_to_commercial_geom ON buildings_up_to_commercial USING GIST (geom);
+CREATE INDEX idx_buildings_all_geom ON buildings_all USING GIST (geom);
+CREATE INDEX roads_all_geom_idx ON roads_all USING GIST (geom);
+CREATE INDEX roads_up_to_residential_geom_idx ON roads_up_to_residential USING GIST (geom);
+CREATE INDEX roads_up_to_secondary_geom_idx ON roads_up_to_secondary USING GIST (geom);
+CREATE INDEX roads_up_to_trunk_geom_idx ON roads_up_to_trunk USING GIST (geom);
+CREATE INDEX roads_motorways_geom_idx ON roads_motorways USING GIST (geom);
@@ -0,0 +1,123 @@
+import * as cdk from 'aws-cdk-lib';
+import { Annotations, Match } from 'aws-cdk-lib/assertions';
+import * as dynamodb from 'aws-cdk-lib/aws-dynamodb';
+import { AwsSolutionsChecks, NIST80053R5Checks } from 'cdk-nag';
+import { applyNagSuppressions, findConstruct, nagSuppressions, WarningsAsErrorsLogger } from '../lib/compliance';
+import { GridwalkConfig, loadConfig } from '../lib/config';
+import { GridwalkInfrastructureStack } from '../lib/gridwalk-infrastructure-stack';
+import { createApp, createStack, prodConfig } from './util';
+
+// The prod config with the choices a staging environment would make
+function stagingLikeConfig(): GridwalkConfig {
+  const config = prodConfig();
+  return {
+    ...config,
+    externalSecrets: { ...config.externalSecrets, createPlaceholders: true },
+    database: {
+      ...config.database,
+      multiAz: false,
+      deletionProtection: false,
+      monitoringIntervalSeconds: undefined,
+      rotationDays: undefined,
+    },
+  };
+}
+
+// The prod config with the backend deployed blue/green, as a new environment would
+function blueGreenConfig(): GridwalkConfig {
+  const config = prodConfig();
+  return {
+    ...config,
+    services: {
+      ...config.services,
+      backend: { ...config.services.backend, blueGreen: { trafficShift: 'canary', terminationWaitMinutes: 60 } },
+    },
+  };
+}
+
+// config/staging.yaml, with a hosted zone id as passed at deploy time
+function stagingConfig(): GridwalkConfig {
+  return loadConfig(createApp({ env: 'staging', hostedZoneId: 'Z0123456789STAGING' }));
+}
+
+function infrastructureStack(app: cdk.App, config: GridwalkConfig): GridwalkInfrastructureStack {
+  return new GridwalkInfrastructureStack(app, 'GridwalkInfrastructureTest', {
+    env: { account: config.account, region: config.region },
+    config: config,
+  });
+}
+
+// Wired the way bin/gridwalk-infrastructure.ts wires it
+function checkedStack(config: GridwalkConfig): cdk.Stack {
+  const app = createApp();
+  const stack = infrastructureStack(app, config);
+  applyNagSuppressions(stack, config);
+  const additionalLoggers = config.compliance.warningsAsErrors ? [new WarningsAsErrorsLogger()] : [];
+  cdk.Aspects.of(app).add(new AwsSolutionsChecks({ reports: false, additionalLoggers }));
+  cdk.Aspects.of(app).add(new NIST80053R5Checks({ reports: false, additionalLoggers }));
+  return stack;
+}
+
+function findings(stack: cdk.Stack): string[] {
+  const annotations = Annotations.fromStack(stack);
+  return [...annotations.findError('*', Match.anyValue()), ...annotations.findWarning('*', Match.anyValue())]
+    .map((message) => `${message.id}: ${message.entry.data}`);
+}
+
+describe('cdk-nag compliance', () => {
+  test('the prod stack has no unsuppressed findings', () => {
+    const config = prodConfig();
+    expect(config.compliance.warningsAsErrors).toBe(true);
+    expect(findings(checkedStack(config))).toEqual([]);
+  });
+
+  test('suppresses the findings of the settings staging turns off', () => {
+    expect(findings(checkedStack(stagingLikeConfig()))).toEqual([]);
+  });
+
+  test('the staging stack has no unsuppressed findings', () => {
+    expect(findings(checkedStack(stagingConfig()))).toEqual([]);
+  });
+
+  test('suppresses the findings of a blue/green backend', () => {
+    expect(findings(checkedStack(blueGreenConfig()))).toEqual([]);
+  });
+
+  test('reports the findings the web ACL covers when there is no web ACL', () => {
+    const ids = findings(checkedStack({ ...prodConfig(), waf: undefined })).map((finding) => finding.split(':')[1].trim());
+    expect(ids).toEqual(expect.arrayContaining([
+      expect.stringMatching(/^AwsSolutions-ELB2/),
+      expect.stringMatching(/^NIST\.800\.53\.R5-ELBLoggingEnabled/),
+      expect.stringMatching(/^AwsSolutions-CFR2/),
+    ]));
+  });
+
+  test('scopes every suppression to construct paths or named findings', () => {
+    expect(nagSuppressions.filter((suppression) => !suppression.paths && !suppression.appliesTo)).toEqual([]);
+  });
+
+  test('every suppressed path exists', () => {
+    const stacks = [prodConfig(), stagingLikeConfig(), blueGreenConfig(), stagingConfig()]
+      .map((config) => infrastructureStack(createApp(), config));
+    const missing = nagSuppressions
+      .flatMap((suppression) => suppression.paths ?? [])
+      .filter((path) => stacks.every((stack) => findConstruct(stack, path) === undefined));
+    expect(missing).toEqual([]);
+  });
+
+  test('reports warnings as errors with the WarningsAsErrorsLogger', () => {
+    const warned = (additionalLoggers: WarningsAsErrorsLogger[]) => {
+      const app = createApp();
+      const stack = createStack(app);
+      new dynamodb.Table(stack, 'Table', {
+        partitionKey: { name: 'pk', type: dynamodb.AttributeType.STRING },
+      });
+      cdk.Aspects.of(app).add(new AwsSolutionsChecks({ reports: false, additionalLoggers }));
+      return Annotations.fromStack(stack);
+    };
+
+    warned([]).hasWarning('/TestStack/Table/Resource', Match.stringLikeRegexp('AwsSolutions-DDB3'));
+    warned([]).hasNoError('/TestStack/Table/Resource', Match.stringLikeRegexp('AwsSolutions-DDB3'));
+    warned([new WarningsAsErrorsLogger()]).hasError('/TestStack/Table/Resource', Match.stringLikeRegexp('AwsSolutions-DDB3.*treated as error'));
+  });
+});
@@ -0,0 +1,175 @@
+import * as cdk from 'aws-cdk-lib';
+import * as logs from 'aws-cdk-lib/aws-logs';
+import * as rds from 'aws-cdk-lib/aws-rds';
+import * as route53 from 'aws-cdk-lib/aws-route53';
+import { Match, Template } from 'aws-cdk-lib/assertions';
+import { Database, DatabaseProps } from '../lib/data';
+import { Network } from '../lib/network';
+import { createStack } from './util';
+
+function databaseTemplate(props: Partial<DatabaseProps> = {}): Template {
+  const stack = createStack();
+  const network = new Network(stack, 'Network', {
+    cidr: '10.0.0.0/16',
+    hostedZones: [
+      route53.PublicHostedZone.fromPublicHostedZoneAttributes(stack, 'Zone', {
+        hostedZoneId: 'Z1',
+        zoneName: 'gridwalk.co',
+      }),
+    ],
+    egress: 'nat',
+  });
+  new Database(stack, 'Database', {
+    network: {
+      vpc: network.vpc,
+      subnetGroup: network.subnetGroup,
+      computeSubnets: network.computeSubnets,
+    },
+    databaseName: 'gridwalk',
+    schemaName: 'geo',
+    allocatedStorage: 20,
+    logRetention: logs.RetentionDays.ONE_MONTH,
+    ...props,
+  });
+  return Template.fromStack(stack);
+}
+
+describe('Database', () => {
+  test('tunes the parameter group for vector tiles', () => {
+    databaseTemplate().hasResourceProperties('AWS::RDS::DBParameterGroup', {
+      Family: 'postgres16',
+      Parameters: {
+        statement_timeout: '60000',
+        idle_in_transaction_session_timeout: '60000',
+        autovacuum_vacuum_scale_factor: '0.05',
+        autovacuum_analyze_scale_factor: '0.02',
+        log_min_duration_statement: '1000',
+        log_statement: 'ddl',
+        log_connections: '1',
+        log_disconnections: '1',
+      },
+    });
+  });
+
+  test('encrypts storage and uses the RDS 2048 CA', () => {
+    databaseTemplate().hasResourceProperties('AWS::RDS::DBInstance', {
+      DBName: 'gridwalk',
+      AllocatedStorage: '20',
+      StorageEncrypted: true,
+      CACertificateIdentifier: 'rds-ca-rsa2048-g1',
+    });
+  });
+
+  test('creates a secret for the master user and each role', () => {
+    const template = databaseTemplate();
+
+    template.resourceCountIs('AWS::SecretsManager::Secret', 4);
+    for (const username of ['read', 'gis_admin', 'write']) {
+      template.hasResourceProperties('AWS::SecretsManager::Secret', {
+        GenerateSecretString: Match.objectLike({
+          GenerateStringKey: 'password',
+          SecretStringTemplate: Match.objectLike({
+            'Fn::Join': Match.arrayWith([
+              Match.arrayWith([Match.stringLikeRegexp(`"username":"${username}"`)]),
+            ]),
+          }),
+        }),
+      });
+    }
+  });
+
+  test('runs the init function as a custom resource', () => {
+    databaseTemplate().hasResourceProperties('AWS::CloudFormation::CustomResource', {
+      DatabaseName: 'gridwalk',
+      SchemaName: 'geo',
+    });
+  });
+
+  test('runs the init again when a role secret template changes', () => {
+    const init = Object.values(databaseTemplate().findResources('AWS::CloudFormation::CustomResource'))[0];
+    // The templates are JSON strings within JSON; compare them without the escapes
+    const templates = JSON.stringify(init.Properties.RoleSecretTemplates).replace(/\\/g, '');
+    for (const username of ['read', 'gis_admin', 'write']) {
+      expect(templates).toContain(`"username":"${username}"`);
+    }
+  });
+
+  test('only rotates secrets when a schedule is set', () => {
+    databaseTemplate().resourceCountIs('AWS::SecretsManager::RotationSchedule', 0);
+
+    const template = databaseTemplate({ rotation: cdk.Duration.days(30) });
+    template.resourceCountIs('AWS::SecretsManager::RotationSchedule', 4);
+    template.hasResourceProperties('AWS::SecretsManager::RotationSchedule', {
+      RotationRules: { ScheduleExpression: 'rate(30 days)' },
+    });
+  });
+
+  test('sets availability, backups and monitoring', () => {
+    const template = databaseTemplate({
+      multiAz: true,
+      backupRetention: cdk.Duration.days(14),
+      preferredBackupWindow: '04:00-05:00',
+      deletionProtection: true,
+      removalPolicy: cdk.RemovalPolicy.RETAIN,
+      performanceInsightRetention: rds.PerformanceInsightRetention.DEFAULT,
+      monitoringInterval: cdk.Duration.seconds(60),
+      maxAllocatedStorage: 100,
+    });
+
+    template.hasResource('AWS::RDS::DBInstance', {
+      Properties: Match.objectLike({
+        MultiAZ: true,
+        BackupRetentionPeriod: 14,
+        PreferredBackupWindow: '04:00-05:00',
+        DeletionProtection: true,
+        EnablePerformanceInsights: true,
+        PerformanceInsightsRetentionPeriod: 7,
+        MonitoringInterval: 60,
+        MonitoringRoleArn: Match.anyValue(),
+        MaxAllocatedStorage: 100,
+      }),
+      DeletionPolicy: 'Retain',
+      UpdateReplacePolicy: 'Retain',
+    });
+  });
+
+  test('restores from a snapshot with a new master password', () => {
+    const template = databaseTemplate({ restore: { snapshotIdentifier: 'gridwalk-prod-2024-05-01' } });
+
+    template.hasResourceProperties('AWS::RDS::DBInstance', {
+      DBSnapshotIdentifier: 'gridwalk-prod-2024-05-01',
+      DBName: Match.absent(),
+      MasterUsername: Match.absent(),
+      MasterUserPassword: Match.anyValue(),
+    });
+    template.hasResourceProperties('AWS::CloudFormation::CustomResource', {
+      DatabaseName: 'gridwalk',
+    });
+  });
+
+  test('restores to a point in time', () => {
+    databaseTemplate({
+      restore: { sourceInstanceIdentifier: 'gridwalk-prod', restoreTime: '2024-05-01T09:30:00Z' },
+    }).hasResourceProperties('AWS::RDS::DBInstance', {
+      SourceDBInstanceIdentifier: 'gridwalk-prod',
+      RestoreTime: '2024-05-01T09:30:00Z',
+      UseLatestRestorableTime: Match.absent(),
+      DBName: Match.absent(),
+      MasterUsername: Match.absent(),
+    });
+
+    databaseTemplate({
+      restore: { sourceInstanceIdentifier: 'gridwalk-prod' },
+    }).hasResourceProperties('AWS::RDS::DBInstance', {
+      SourceDBInstanceIdentifier: 'gridwalk-prod',
+      UseLatestRestorableTime: true,
+    });
+  });
+
+  test('rejects a restore without exactly one source', () => {
+    expect(() => databaseTemplate({ restore: {} })).toThrow(/exactly one of/);
+    expect(() => databaseTemplate({
+      restore: { snapshotIdentifier: 'gridwalk-prod-2024-05-01', sourceInstanceIdentifier: 'gridwalk-prod' },
+    })).toThrow(/exactly one of/);
+  });
+});
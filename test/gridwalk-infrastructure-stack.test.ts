@@ -0,0 +1,181 @@
+import { Annotations, Match, Template } from 'aws-cdk-lib/assertions';
+import { GridwalkInfrastructureStack } from '../lib/gridwalk-infrastructure-stack';
+import { loadConfig } from '../lib/config';
+import { createApp, prodConfig } from './util';
+
+function stackTemplate(): Template {
+  const config = prodConfig();
+  const stack = new GridwalkInfrastructureStack(createApp(), 'GridwalkInfrastructureTest', {
+    env: { account: config.account, region: config.region },
+    config: config,
+  });
+  return Template.fromStack(stack);
+}
+
+describe('GridwalkInfrastructureStack', () => {
+  const template = stackTemplate();
+
+  test('matches the snapshot', () => {
+    expect(template.toJSON()).toMatchSnapshot();
+  });
+
+  test.each([
+    ['GridwalkBackendService27B4DA4F', 'gridwalk-backend', 'NetworkApplicationLoadBalancerListener443GridwalkBackendTargetGroupRuleFB8E7926', 10],
+    ['GridwalkUiServiceC636B41A', 'gridwalk-ui', 'NetworkApplicationLoadBalancerListener443GridwalkUiTargetGroupRule125489AC', 5],
+    ['GridwalkProductService6C1B46D2', 'gridwalk-product', 'NetworkApplicationLoadBalancerListener443GridwalkProductTargetGroupRule8968A9D8', 30],
+  ])('keeps the deployed logical ID %s for %s and its listener rule', (serviceId, serviceName, ruleId, priority) => {
+    const resources = template.toJSON().Resources;
+    expect(resources[serviceId]).toMatchObject({ Type: 'AWS::ECS::Service', Properties: { ServiceName: serviceName } });
+    expect(resources[ruleId]).toMatchObject({ Type: 'AWS::ElasticLoadBalancingV2::ListenerRule', Properties: { Priority: priority } });
+  });
+
+  test('keeps the deployed database subnet group for the instance', () => {
+    template.hasResourceProperties('AWS::RDS::DBInstance', {
+      DBSubnetGroupName: { Ref: 'NetworkSubnetGroupAllDC72839A' },
+    });
+  });
+
+  test('deploys the pinned image tags and digests', () => {
+    const images = Object.values(template.findResources('AWS::ECS::TaskDefinition'))
+      .map((taskDefinition) => JSON.stringify(taskDefinition.Properties.ContainerDefinitions[0].Image));
+    expect(images).toContainEqual(expect.stringContaining(':v1.0.0'));
+    expect(images).toContainEqual(expect.stringContaining(`@sha256:${'a'.repeat(64)}`));
+    expect(images).not.toContainEqual(expect.stringContaining(':latest'));
+  });
+
+  test('scopes the backend to its table and the indexes it queries', () => {
+    template.hasResourceProperties('AWS::IAM::Policy', {
+      PolicyName: Match.stringLikeRegexp('GridwalkBackendTaskDefTaskRoleDefaultPolicy'),
+      PolicyDocument: {
+        Statement: Match.arrayWith([
+          Match.objectLike({
+            Action: Match.arrayWith(['dynamodb:DescribeTable', 'dynamodb:Query']),
+            Resource: { 'Fn::GetAtt': [Match.stringLikeRegexp('^GridwalkTable'), 'Arn'] },
+          }),
+          Match.objectLike({
+            Action: 'dynamodb:Query',
+            Resource: ['con', 'user'].map((index) => ({
+              'Fn::Join': ['', [{ 'Fn::GetAtt': [Match.stringLikeRegexp('^GridwalkTable'), 'Arn'] }, `/index/${index}`]],
+            })),
+          }),
+        ]),
+      },
+    });
+    expect(JSON.stringify(template.findResources('AWS::IAM::Policy'))).not.toContain('dynamodb:ListTables');
+  });
+
+  test('passes the task role least privilege checks', () => {
+    const config = prodConfig();
+    const stack = new GridwalkInfrastructureStack(createApp(), 'GridwalkInfrastructureTest', {
+      env: { account: config.account, region: config.region },
+      config: config,
+    });
+    Annotations.fromStack(stack).hasNoError('*', Match.anyValue());
+  });
+
+  test('protects the tables and streams GridwalkTable changes', () => {
+    const tables = Object.entries(template.findResources('AWS::DynamoDB::GlobalTable'))
+      .filter(([logicalId]) => /^Gridwalk(Landing)?Table[A-F0-9]{8}$/.test(logicalId));
+    expect(tables).toHaveLength(2);
+    for (const [, table] of tables) {
+      expect(table.DeletionPolicy).toBe('Retain');
+      expect(table.Properties.Replicas[0]).toMatchObject({
+        DeletionProtectionEnabled: true,
+        PointInTimeRecoverySpecification: { PointInTimeRecoveryEnabled: true },
+      });
+    }
+
+    template.hasResourceProperties('AWS::DynamoDB::GlobalTable', {
+      TimeToLiveSpecification: { AttributeName: 'expires_at', Enabled: true },
+      StreamSpecification: { StreamViewType: 'NEW_AND_OLD_IMAGES' },
+    });
+    template.hasResourceProperties('AWS::Lambda::EventSourceMapping', {
+      EventSourceArn: { 'Fn::GetAtt': [Match.stringLikeRegexp('^GridwalkTable'), 'StreamArn'] },
+    });
+    template.resourceCountIs('AWS::Backup::BackupSelection', 1);
+  });
+
+  test.each([
+    ['GridwalkBackend', 'GridwalkTable'],
+    ['GridwalkUi', 'GridwalkLandingTable'],
+    ['GridwalkProduct', 'GridwalkLandingTable'],
+  ])('grants %s task role access to %s', (service, table) => {
+    const policies = template.findResources('AWS::IAM::Policy', {
+      Properties: { PolicyName: Match.stringLikeRegexp(`${service}TaskDefTaskRoleDefaultPolicy`) },
+    });
+    const resources = Object.values(policies)
+      .flatMap((policy) => policy.Properties.PolicyDocument.Statement)
+      .filter((statement) => [statement.Action].flat().includes('dynamodb:PutItem'))
+      .flatMap((statement) => [statement.Resource].flat());
+
+    expect(resources).toContainEqual({ 'Fn::GetAtt': [expect.stringMatching(`^${table}`), 'Arn'] });
+  });
+
+  test.each([
+    ['Gridwalk Backend to Postgres', 'GridwalkBackendSecurityGroup'],
+    ['Allow inbound to database from ops task', 'OpsSecurityGroup'],
+    ['Allow inbound to database from init function', 'DatabaseInitSecurityGroup'],
+    ['Allow inbound to database from migrations function', 'DatabaseMigrationsMigrationsSecurityGroup'],
+  ])('allows "%s" into the database', (description, source) => {
+    template.hasResourceProperties('AWS::EC2::SecurityGroupIngress', {
+      Description: description,
+      FromPort: 5432,
+      ToPort: 5432,
+      GroupId: { 'Fn::GetAtt': [Match.stringLikeRegexp('DatabaseDatabaseSecurityGroup'), 'GroupId'] },
+      SourceSecurityGroupId: { 'Fn::GetAtt': [Match.stringLikeRegexp(`^${source}`), 'GroupId'] },
+    });
+  });
+
+  test('only allows the ALB into the services', () => {
+    for (const port of [3000, 3001]) {
+      template.hasResourceProperties('AWS::EC2::SecurityGroupIngress', {
+        Description: 'Allow inbound traffic from ALB',
+        FromPort: port,
+        SourceSecurityGroupId: {
+          'Fn::GetAtt': [Match.stringLikeRegexp('NetworkApplicationLoadBalancerSecurityGroup'), 'GroupId'],
+        },
+      });
+    }
+  });
+
+  test('routes the tile cache origin host to the tile server', () => {
+    template.hasResourceProperties('AWS::ElasticLoadBalancingV2::ListenerRule', {
+      Conditions: [{ Field: 'host-header', HostHeaderConfig: { Values: ['tiles-origin.gridwalk.co'] } }],
+      Actions: [Match.objectLike({
+        TargetGroupArn: { Ref: Match.stringLikeRegexp('^GridwalkTilesTargetGroup') },
+      })],
+    });
+  });
+
+  test('refreshes the materialized views on the configured schedules', () => {
+    template.hasResourceProperties('AWS::Events::Rule', {
+      ScheduleExpression: 'cron(0 3 ? * SUN *)',
+      Targets: [
+        Match.objectLike({
+          Input: JSON.stringify({ views: ['roads_up_to_trunk', 'roads_motorways'] }),
+        }),
+      ],
+    });
+    template.resourcePropertiesCountIs('AWS::Events::Rule', { ScheduleExpression: Match.stringLikeRegexp('^cron') }, 3);
+  });
+});
+
+describe('staging config', () => {
+  test('takes the hosted zone id from context', () => {
+    const app = createApp({ env: 'staging', hostedZoneId: 'Z0123456789STAGING' });
+    const config = loadConfig(app);
+    expect(config.hostedZone).toMatchObject({ hostedZoneId: 'Z0123456789STAGING', zoneName: 'staging.gridwalk.co' });
+
+    const stack = new GridwalkInfrastructureStack(app, 'GridwalkInfrastructureStaging', {
+      env: { account: config.account, region: config.region },
+      config: config,
+    });
+    Template.fromStack(stack).hasResourceProperties('AWS::CertificateManager::Certificate', {
+      DomainName: 'staging.gridwalk.co',
+    });
+  });
+
+  test('reports the missing hosted zone id without it', () => {
+    expect(() => loadConfig(createApp({ env: 'staging' }))).toThrow(/hostedZone\.hostedZoneId/);
+  });
+});
@@ -0,0 +1,415 @@
+import * as dynamodb from 'aws-cdk-lib/aws-dynamodb';
+import * as ecr from 'aws-cdk-lib/aws-ecr';
+import * as ecs from 'aws-cdk-lib/aws-ecs';
+import * as logs from 'aws-cdk-lib/aws-logs';
+import * as route53 from 'aws-cdk-lib/aws-route53';
+import * as secretsmanager from 'aws-cdk-lib/aws-secretsmanager';
+import { Match, Template } from 'aws-cdk-lib/assertions';
+import { ExternalSecrets } from '../lib/external-secrets';
+import { Gridwalk } from '../lib/gridwalk-service';
+import { Network } from '../lib/network';
+import { BlueGreenDeployment, ServiceScaling, WebService } from '../lib/web-service';
+import { createStack } from './util';
+
+type Domains = { name: string; priorityBlock: number; redirects?: { from: string; to?: string; priority: number }[] }[];
+
+function gridwalkTemplate(
+  backendBlueGreen?: BlueGreenDeployment,
+  domains: Domains = [{ name: 'gridwalk.co', priorityBlock: 0 }],
+  backendScaling?: ServiceScaling,
+): Template {
+  const stack = createStack();
+  const network = new Network(stack, 'Network', {
+    cidr: '10.0.0.0/16',
+    hostedZones: [
+      route53.PublicHostedZone.fromPublicHostedZoneAttributes(stack, 'Zone', {
+        hostedZoneId: 'Z1',
+        zoneName: 'gridwalk.co',
+      }),
+    ],
+    egress: 'nat',
+    testListener: { port: 8443, allowedCidrs: [] },
+  });
+  const table = new dynamodb.TableV2(stack, 'Table', {
+    partitionKey: { name: 'PK', type: dynamodb.AttributeType.STRING },
+  });
+  const landingTable = new dynamodb.TableV2(stack, 'LandingTable', {
+    partitionKey: { name: 'PK', type: dynamodb.AttributeType.STRING },
+  });
+  const service = {
+    ecrRepository: new ecr.Repository(stack, 'Repository'),
+    image: 'v1.0.0',
+    cpu: 256,
+    memoryLimitMiB: 512,
+    desiredCount: 1,
+  };
+
+  new Gridwalk(stack, 'Gridwalk', {
+    vpc: network.vpc,
+    subnets: network.computeSubnets,
+    cluster: new ecs.Cluster(stack, 'Cluster', { vpc: network.vpc }),
+    serviceName: 'gridwalk',
+    serviceConnectNamespace: 'Gridwalk',
+    listener: network.httpsListener,
+    testListener: network.testListener,
+    domains: domains,
+    externalSecrets: new ExternalSecrets(stack, 'ExternalSecrets', { createPlaceholders: false }),
+    logRetention: logs.RetentionDays.ONE_MONTH,
+    admin: { email: 'admin@gridwalk.co' },
+    backend: {
+      ...service,
+      blueGreen: backendBlueGreen,
+      scaling: backendScaling,
+      dynamodbTable: table,
+      primaryGeoDatabaseSecret: new secretsmanager.Secret(stack, 'DatabaseSecret'),
+    },
+    ui: { ...service, dynamodbLandingTable: landingTable },
+    product: { ...service, dynamodbLandingTable: landingTable },
+    tiles: {
+      cpu: 256,
+      memoryLimitMiB: 512,
+      desiredCount: 1,
+      databaseSecret: new secretsmanager.Secret(stack, 'ReadSecret'),
+    },
+  });
+  return Template.fromStack(stack);
+}
+
+describe('Gridwalk', () => {
+  const template = gridwalkTemplate();
+
+  test.each([
+    ['api.gridwalk.co', 10],
+    ['app.gridwalk.co', 5],
+    ['gridwalk.co', 30],
+    ['tiles.gridwalk.co', 20],
+  ])('routes %s with priority %d', (host, priority) => {
+    template.hasResourceProperties('AWS::ElasticLoadBalancingV2::ListenerRule', {
+      Priority: priority,
+      Conditions: [{ Field: 'host-header', HostHeaderConfig: { Values: [host] } }],
+      Actions: [Match.objectLike({ Type: 'forward' })],
+    });
+  });
+
+  test('only lets product put items in the landing table', () => {
+    template.hasResourceProperties('AWS::IAM::Policy', {
+      PolicyName: Match.stringLikeRegexp('GridwalkProductTaskDefTaskRoleDefaultPolicy'),
+      PolicyDocument: {
+        Statement: Match.arrayWith([{
+          Action: 'dynamodb:PutItem',
+          Effect: 'Allow',
+          Resource: { 'Fn::GetAtt': [Match.stringLikeRegexp('^LandingTable'), 'Arn'] },
+        }]),
+      },
+    });
+  });
+
+  test('redirects the root of the app subdomain to the product site', () => {
+    template.hasResourceProperties('AWS::ElasticLoadBalancingV2::ListenerRule', {
+      Priority: 4,
+      Conditions: Match.arrayWith([
+        { Field: 'path-pattern', PathPatternConfig: { Values: ['/'] } },
+      ]),
+      Actions: [
+        Match.objectLike({
+          Type: 'redirect',
+          RedirectConfig: Match.objectLike({ Host: 'gridwalk.co', StatusCode: 'HTTP_301' }),
+        }),
+      ],
+    });
+  });
+
+  test.each([
+    [3001, '/health'],
+    [3000, '/login'],
+    [3000, '/'],
+    [3002, '/health'],
+  ])('creates a target group on port %d checking %s', (port, path) => {
+    template.hasResourceProperties('AWS::ElasticLoadBalancingV2::TargetGroup', {
+      Port: port,
+      TargetType: 'ip',
+      HealthCheckPath: path,
+    });
+  });
+
+  test('exposes each container port', () => {
+    for (const port of [3000, 3001, 3002]) {
+      template.hasResourceProperties('AWS::ECS::TaskDefinition', {
+        ContainerDefinitions: [
+          Match.objectLike({ PortMappings: [{ ContainerPort: port, Protocol: 'tcp' }] }),
+        ],
+      });
+    }
+  });
+
+  test('runs the services without public IPs', () => {
+    template.resourcePropertiesCountIs('AWS::ECS::Service', {
+      NetworkConfiguration: {
+        AwsvpcConfiguration: Match.objectLike({ AssignPublicIp: 'DISABLED' }),
+      },
+    }, 4);
+  });
+
+  test('injects the admin password as a secret rather than plain text', () => {
+    template.hasResourceProperties('AWS::ECS::TaskDefinition', {
+      ContainerDefinitions: [
+        Match.objectLike({
+          Environment: Match.arrayWith([{ Name: 'GW_USER_EMAIL', Value: 'admin@gridwalk.co' }]),
+          Secrets: Match.arrayWith([Match.objectLike({ Name: 'GW_USER_PASSWORD' })]),
+        }),
+      ],
+    });
+  });
+
+  test('leaves the admin password unrotated, as only the first start reads it', () => {
+    template.resourceCountIs('AWS::SecretsManager::RotationSchedule', 0);
+  });
+
+  test('connects the tile server with the read role', () => {
+    template.hasResourceProperties('AWS::ECS::TaskDefinition', {
+      ContainerDefinitions: [
+        Match.objectLike({
+          Environment: Match.arrayWith([{ Name: 'PUBLIC_URL', Value: 'https://tiles.gridwalk.co' }]),
+          Secrets: Match.arrayWith([
+            {
+              Name: 'PGUSER',
+              ValueFrom: {
+                'Fn::Join': ['', [{ Ref: Match.stringLikeRegexp('^ReadSecret') }, ':username::']],
+              },
+            },
+          ]),
+        }),
+      ],
+    });
+  });
+});
+
+describe('Gridwalk domains', () => {
+  const domains = [
+    { name: 'gridwalk.co', priorityBlock: 0, redirects: [{ from: 'www', priority: 40 }] },
+    // Keeps block 3 whatever domains come before it
+    {
+      name: 'maps.example.com',
+      priorityBlock: 3,
+      redirects: [{ from: 'tile', to: 'tiles', priority: 45 }, { from: 'www', priority: 40 }],
+    },
+  ];
+  const template = gridwalkTemplate({ trafficShift: 'allAtOnce', terminationWaitMinutes: 30 }, domains);
+
+  test.each([
+    ['api.maps.example.com', 310],
+    ['app.maps.example.com', 305],
+    ['maps.example.com', 330],
+    ['tiles.maps.example.com', 320],
+  ])('routes %s with priority %d', (host, priority) => {
+    template.hasResourceProperties('AWS::ElasticLoadBalancingV2::ListenerRule', {
+      ListenerArn: { Ref: Match.stringLikeRegexp('^NetworkApplicationLoadBalancerListener443') },
+      Priority: priority,
+      Conditions: [{ Field: 'host-header', HostHeaderConfig: { Values: [host] } }],
+      Actions: [Match.objectLike({ Type: 'forward' })],
+    });
+  });
+
+  test('tells the tile server which hosts link to themselves in the TileJSON', () => {
+    template.hasResourceProperties('AWS::ECS::TaskDefinition', {
+      ContainerDefinitions: [Match.objectLike({
+        Environment: Match.arrayWith([
+          { Name: 'PUBLIC_URL', Value: 'https://tiles.gridwalk.co' },
+          { Name: 'CUSTOM_TILE_HOSTS', Value: 'tiles.maps.example.com' },
+        ]),
+      })],
+    });
+  });
+
+  test('routes every domain on the test listener for blue/green services', () => {
+    template.hasResourceProperties('AWS::ElasticLoadBalancingV2::ListenerRule', {
+      ListenerArn: { Ref: Match.stringLikeRegexp('^NetworkApplicationLoadBalancerTestListener') },
+      Priority: 310,
+      Conditions: [{ Field: 'host-header', HostHeaderConfig: { Values: ['api.maps.example.com'] } }],
+      Actions: [Match.objectLike({
+        TargetGroupArn: { Ref: Match.stringLikeRegexp('^GridwalkBackendGreenTargetGroup') },
+      })],
+    });
+  });
+
+  test.each([
+    ['www.gridwalk.co', 'gridwalk.co', 40],
+    ['app.maps.example.com', 'maps.example.com', 304],
+    ['www.maps.example.com', 'maps.example.com', 340],
+    ['tile.maps.example.com', 'tiles.maps.example.com', 345],
+  ])('redirects %s to %s with priority %d', (from, to, priority) => {
+    template.hasResourceProperties('AWS::ElasticLoadBalancingV2::ListenerRule', {
+      Priority: priority,
+      Conditions: Match.arrayWith([{ Field: 'host-header', HostHeaderConfig: { Values: [from] } }]),
+      Actions: [
+        Match.objectLike({
+          Type: 'redirect',
+          RedirectConfig: Match.objectLike({ Host: to, StatusCode: 'HTTP_301' }),
+        }),
+      ],
+    });
+  });
+
+  test.each([
+    [[{ name: 'gridwalk.co', priorityBlock: 1 }]],
+    [[{ name: 'gridwalk.co', priorityBlock: 0 }, { name: 'example.com', priorityBlock: 0 }]],
+    [[{ name: 'gridwalk.co', priorityBlock: 0 }, { name: 'example.com', priorityBlock: 2 }, { name: 'example.org', priorityBlock: 2 }]],
+  ])('rejects priority blocks that could collide: %j', (clashing) => {
+    expect(() => gridwalkTemplate(undefined, clashing)).toThrow(/unique priority blocks/);
+  });
+
+  test('links the services to the first domain', () => {
+    template.hasResourceProperties('AWS::ECS::TaskDefinition', {
+      ContainerDefinitions: [Match.objectLike({
+        Environment: Match.arrayWith([{ Name: 'GRIDWALK_API', Value: 'https://api.gridwalk.co' }]),
+      })],
+    });
+  });
+});
+
+describe('Gridwalk deployments', () => {
+  test('rolls back failed rolling updates', () => {
+    gridwalkTemplate().resourcePropertiesCountIs('AWS::ECS::Service', {
+      DeploymentConfiguration: Match.objectLike({
+        DeploymentCircuitBreaker: { Enable: true, Rollback: true },
+      }),
+    }, 4);
+  });
+
+  test('scales rolling update services on their target group\'s requests', () => {
+    gridwalkTemplate(undefined, undefined, { minCapacity: 1, maxCapacity: 4, requestsPerTarget: 1000 })
+      .hasResourceProperties('AWS::ApplicationAutoScaling::ScalingPolicy', {
+        TargetTrackingScalingPolicyConfiguration: Match.objectLike({
+          PredefinedMetricSpecification: Match.objectLike({ PredefinedMetricType: 'ALBRequestCountPerTarget' }),
+          TargetValue: 1000,
+        }),
+      });
+  });
+
+  describe('with blue/green for the backend', () => {
+    const template = gridwalkTemplate({ trafficShift: 'canary', terminationWaitMinutes: 30 });
+
+    test('hands the backend to CodeDeploy', () => {
+      template.hasResourceProperties('AWS::ECS::Service', {
+        ServiceName: 'gridwalk-backend',
+        DeploymentController: { Type: 'CODE_DEPLOY' },
+        ServiceConnectConfiguration: Match.absent(),
+      });
+      template.resourcePropertiesCountIs('AWS::ECS::Service', {
+        DeploymentConfiguration: Match.objectLike({
+          DeploymentCircuitBreaker: { Enable: true, Rollback: true },
+        }),
+      }, 3);
+    });
+
+    test('creates the backend as a new service rather than replacing the deployed one', () => {
+      const services = template.findResources('AWS::ECS::Service', {
+        Properties: Match.objectLike({ ServiceName: 'gridwalk-backend' }),
+      });
+      expect(Object.keys(services)).not.toContain('GridwalkBackendService27B4DA4F');
+    });
+
+    test('routes the test listener to the green target group', () => {
+      template.hasResourceProperties('AWS::ElasticLoadBalancingV2::ListenerRule', {
+        ListenerArn: { Ref: Match.stringLikeRegexp('^NetworkApplicationLoadBalancerTestListener') },
+        Priority: 10,
+        Actions: [Match.objectLike({
+          TargetGroupArn: { Ref: Match.stringLikeRegexp('^GridwalkBackendGreenTargetGroup') },
+        })],
+      });
+    });
+
+    test('scales on the requests of both target groups', () => {
+      const template = gridwalkTemplate(
+        { trafficShift: 'canary', terminationWaitMinutes: 30 },
+        undefined,
+        { minCapacity: 1, maxCapacity: 4, requestsPerTarget: 1000 },
+      );
+      const targetGroup = (name: string) => Match.objectLike({
+        MetricStat: Match.objectLike({
+          Metric: Match.objectLike({
+            MetricName: 'RequestCountPerTarget',
+            Dimensions: Match.arrayWith([{
+              Name: 'TargetGroup',
+              Value: { 'Fn::GetAtt': [Match.stringLikeRegexp(`^GridwalkBackend${name}`), 'TargetGroupFullName'] },
+            }]),
+          }),
+          Stat: 'Sum',
+        }),
+        ReturnData: false,
+      });
+
+      template.hasResourceProperties('AWS::ApplicationAutoScaling::ScalingPolicy', {
+        TargetTrackingScalingPolicyConfiguration: {
+          CustomizedMetricSpecification: {
+            Metrics: [
+              targetGroup('TargetGroup'),
+              targetGroup('GreenTargetGroup'),
+              Match.objectLike({ Expression: 'FILL(blue, 0) + FILL(green, 0)', ReturnData: true }),
+            ],
+          },
+          TargetValue: 1000,
+        },
+      });
+    });
+
+    test('rolls back on alarms', () => {
+      template.hasResourceProperties('AWS::CodeDeploy::DeploymentGroup', {
+        DeploymentConfigName: 'CodeDeployDefault.ECSCanary10Percent5Minutes',
+        AlarmConfiguration: {
+          Enabled: true,
+          Alarms: [
+            { Name: { Ref: Match.stringLikeRegexp('^GridwalkBackendDeployment5xxAlarm') } },
+            { Name: { Ref: Match.stringLikeRegexp('^GridwalkBackendDeploymentUnhealthyAlarm') } },
+          ],
+        },
+        AutoRollbackConfiguration: {
+          Enabled: true,
+          Events: ['DEPLOYMENT_FAILURE', 'DEPLOYMENT_STOP_ON_REQUEST', 'DEPLOYMENT_STOP_ON_ALARM'],
+        },
+        BlueGreenDeploymentConfiguration: Match.objectLike({
+          TerminateBlueInstancesOnDeploymentSuccess: { Action: 'TERMINATE', TerminationWaitTimeInMinutes: 30 },
+        }),
+      });
+    });
+
+    test('deploys new task definitions through CodeDeploy', () => {
+      template.hasResourceProperties('Custom::AWS', {
+        Update: Match.objectLike({
+          'Fn::Join': ['', Match.arrayWith([Match.stringLikeRegexp('"action":"createDeployment"')])],
+        }),
+      });
+    });
+
+    test('requires a test listener', () => {
+      expect(() => {
+        const stack = createStack();
+        const network = new Network(stack, 'Network', {
+          cidr: '10.0.0.0/16',
+          hostedZones: [
+            route53.PublicHostedZone.fromPublicHostedZoneAttributes(stack, 'Zone', { hostedZoneId: 'Z1', zoneName: 'gridwalk.co' }),
+          ],
+          egress: 'nat',
+        });
+        new WebService(stack, 'Service', {
+          vpc: network.vpc,
+          subnets: network.computeSubnets,
+          cluster: new ecs.Cluster(stack, 'Cluster', { vpc: network.vpc }),
+          serviceName: 'service',
+          serviceConnectNamespace: 'Gridwalk',
+          listener: network.httpsListener,
+          image: ecs.ContainerImage.fromRegistry('nginx'),
+          cpu: 256,
+          memoryLimitMiB: 512,
+          desiredCount: 1,
+          blueGreen: { trafficShift: 'allAtOnce', terminationWaitMinutes: 5 },
+          port: 80,
+          healthCheckPath: '/',
+          conditions: [],
+          priority: 1,
+          logRetention: logs.RetentionDays.ONE_MONTH,
+        });
+      }).toThrow(/need a test listener/);
+    });
+  });
+});
@@ -0,0 +1,103 @@
+import * as ecs from 'aws-cdk-lib/aws-ecs';
+import * as logs from 'aws-cdk-lib/aws-logs';
+import * as route53 from 'aws-cdk-lib/aws-route53';
+import { Match, Template } from 'aws-cdk-lib/assertions';
+import { Database } from '../lib/data';
+import { Ingestion } from '../lib/ingestion';
+import { Network } from '../lib/network';
+import { createStack } from './util';
+
+function ingestionTemplate(): Template {
+  const stack = createStack();
+  const network = new Network(stack, 'Network', {
+    cidr: '10.0.0.0/16',
+    hostedZones: [
+      route53.PublicHostedZone.fromPublicHostedZoneAttributes(stack, 'Zone', {
+        hostedZoneId: 'Z1',
+        zoneName: 'gridwalk.co',
+      }),
+    ],
+    egress: 'nat',
+  });
+  const database = new Database(stack, 'Database', {
+    network: {
+      vpc: network.vpc,
+      subnetGroup: network.subnetGroup,
+      computeSubnets: network.computeSubnets,
+    },
+    databaseName: 'gridwalk',
+    schemaName: 'geo',
+    allocatedStorage: 20,
+    logRetention: logs.RetentionDays.ONE_MONTH,
+  });
+  new Ingestion(stack, 'Ingestion', {
+    network: { vpc: network.vpc, computeSubnets: network.computeSubnets },
+    cluster: new ecs.Cluster(stack, 'Cluster', { vpc: network.vpc }),
+    database: database,
+    schemaName: 'geo',
+    cpu: 2048,
+    memoryLimitMiB: 8192,
+    ephemeralStorageGiB: 50,
+    logRetention: logs.RetentionDays.ONE_MONTH,
+  });
+  return Template.fromStack(stack);
+}
+
+describe('Ingestion', () => {
+  const template = ingestionTemplate();
+
+  test('starts a task for each object created in the landing bucket', () => {
+    template.hasResourceProperties('AWS::Events::Rule', {
+      EventPattern: {
+        source: ['aws.s3'],
+        'detail-type': ['Object Created'],
+        detail: { bucket: { name: [{ Ref: Match.stringLikeRegexp('^IngestionLandingBucket') }] } },
+      },
+      Targets: [
+        Match.objectLike({
+          EcsParameters: Match.objectLike({ LaunchType: 'FARGATE' }),
+          InputTransformer: Match.objectLike({
+            InputPathsMap: { 'detail-object-key': '$.detail.object.key' },
+          }),
+        }),
+      ],
+    });
+    template.hasResourceProperties('Custom::S3BucketNotifications', {
+      NotificationConfiguration: { EventBridgeConfiguration: {} },
+    });
+  });
+
+  test('loads as gis_admin with enough scratch space', () => {
+    template.hasResourceProperties('AWS::ECS::TaskDefinition', {
+      EphemeralStorage: { SizeInGiB: 50 },
+      ContainerDefinitions: [
+        Match.objectLike({
+          Secrets: Match.arrayWith([
+            {
+              Name: 'PGUSER',
+              ValueFrom: {
+                'Fn::Join': ['', [{ Ref: Match.stringLikeRegexp('^DatabaseGisadmin') }, ':username::']],
+              },
+            },
+          ]),
+        }),
+      ],
+    });
+  });
+
+  test('records loads in an audit table', () => {
+    template.hasResourceProperties('AWS::DynamoDB::GlobalTable', {
+      KeySchema: [
+        { AttributeName: 'sourceKey', KeyType: 'HASH' },
+        { AttributeName: 'startedAt', KeyType: 'RANGE' },
+      ],
+    });
+  });
+
+  test('allows the task into the database', () => {
+    template.hasResourceProperties('AWS::EC2::SecurityGroupIngress', {
+      Description: 'Allow inbound to database from ingestion task',
+      FromPort: 5432,
+    });
+  });
+});
@@ -0,0 +1,72 @@
+import * as cdk from 'aws-cdk-lib';
+import * as dynamodb from 'aws-cdk-lib/aws-dynamodb';
+import * as ecs from 'aws-cdk-lib/aws-ecs';
+import * as iam from 'aws-cdk-lib/aws-iam';
+import * as s3 from 'aws-cdk-lib/aws-s3';
+import { Annotations, Match } from 'aws-cdk-lib/assertions';
+import { TaskRoleLeastPrivilege } from '../lib/least-privilege';
+import { TableAccess, tableAccessStatements } from '../lib/table-access';
+import { createStack } from './util';
+
+// Errors raised on a task definition whose role is granted access by grant
+function errors(grant: (stack: cdk.Stack, role: iam.IRole) => void): string[] {
+  const stack = createStack();
+  const taskDefinition = new ecs.FargateTaskDefinition(stack, 'TaskDef');
+  taskDefinition.addContainer('Container', { image: ecs.ContainerImage.fromRegistry('nginx') });
+  grant(stack, taskDefinition.taskRole);
+  cdk.Aspects.of(stack).add(new TaskRoleLeastPrivilege());
+  return Annotations.fromStack(stack).findError('*', Match.anyValue()).map((error) => error.entry.data as string);
+}
+
+function table(stack: cdk.Stack): dynamodb.TableV2 {
+  return new dynamodb.TableV2(stack, 'Table', {
+    partitionKey: { name: 'PK', type: dynamodb.AttributeType.STRING },
+    globalSecondaryIndexes: [{ indexName: 'user', partitionKey: { name: 'user_id', type: dynamodb.AttributeType.STRING } }],
+  });
+}
+
+function grantAccess(role: iam.IRole, access: TableAccess) {
+  for (const statement of tableAccessStatements(access)) {
+    role.addToPrincipalPolicy(statement);
+  }
+}
+
+describe('TaskRoleLeastPrivilege', () => {
+  test('accepts declared table access', () => {
+    expect(errors((stack, role) => grantAccess(role, {
+      table: table(stack),
+      actions: ['GetItem', 'Query', 'PutItem'],
+      indexes: ['user'],
+    }))).toEqual([]);
+  });
+
+  test('rejects the index wildcard granted by grantReadWriteData', () => {
+    expect(errors((stack, role) => table(stack).grantReadWriteData(role))).toEqual([
+      expect.stringMatching(/on \{AWS\.DynamoDB\.GlobalTable\}\/index\/\*/),
+    ]);
+  });
+
+  test('rejects wildcard resources and actions', () => {
+    expect(errors((stack, role) => role.addToPrincipalPolicy(new iam.PolicyStatement({
+      actions: ['dynamodb:ListTables'],
+      resources: [`arn:aws:dynamodb:${stack.region}:${stack.account}:table/*`],
+    })))).toEqual([expect.stringMatching(/dynamodb:ListTables on arn:aws:dynamodb:.*:table\/\*/)]);
+
+    expect(errors((stack, role) => role.addToPrincipalPolicy(new iam.PolicyStatement({
+      actions: ['dynamodb:*'],
+      resources: [table(stack).tableArn],
+    })))).toEqual([expect.stringMatching(/grants dynamodb:\*/)]);
+  });
+
+  test('allows objects in one bucket', () => {
+    expect(errors((stack, role) => new s3.Bucket(stack, 'Bucket').grantRead(role))).toEqual([]);
+  });
+});
+
+describe('tableAccessStatements', () => {
+  test('needs Query or Scan to use an index', () => {
+    const stack = createStack();
+    expect(() => tableAccessStatements({ table: table(stack), actions: ['GetItem'], indexes: ['user'] }))
+      .toThrow(/needs Query or Scan/);
+  });
+});
@@ -0,0 +1,68 @@
+import { Match, Template } from 'aws-cdk-lib/assertions';
+import { GridwalkInfrastructureStack } from '../lib/gridwalk-infrastructure-stack';
+import { createApp, prodConfig } from './util';
+
+// Log groups come from the services, database and ingestion, so this is tested through the full stack
+function stackTemplate(): Template {
+  const config = prodConfig();
+  const stack = new GridwalkInfrastructureStack(createApp(), 'GridwalkInfrastructureTest', {
+    env: { account: config.account, region: config.region },
+    config: config,
+  });
+  return Template.fromStack(stack);
+}
+
+describe('Logging', () => {
+  const template = stackTemplate();
+
+  test('keeps container logs for the configured retention', () => {
+    // Four services, the ingestion and ops tasks and ECS Exec sessions
+    template.resourcePropertiesCountIs('AWS::Logs::LogGroup', { RetentionInDays: 365 }, 7);
+    template.hasResourceProperties('AWS::ECS::TaskDefinition', {
+      ContainerDefinitions: [
+        Match.objectLike({
+          LogConfiguration: {
+            LogDriver: 'awslogs',
+            Options: Match.objectLike({
+              'awslogs-group': { Ref: Match.stringLikeRegexp('^GridwalkTilesLogGroup') },
+              'awslogs-stream-prefix': 'gridwalk-tiles',
+            }),
+          },
+        }),
+      ],
+    });
+  });
+
+  test('exports the Postgres log', () => {
+    template.hasResourceProperties('AWS::RDS::DBInstance', {
+      EnableCloudwatchLogsExports: Match.arrayWith(['postgresql']),
+    });
+    template.hasResourceProperties('Custom::LogRetention', { RetentionInDays: 365 });
+  });
+
+  test('counts slow tile queries', () => {
+    template.hasResourceProperties('AWS::Logs::MetricFilter', {
+      FilterPattern: '"duration:" "_mvt"',
+      MetricTransformations: [Match.objectLike({ MetricName: 'SlowTileQueries', MetricNamespace: 'Gridwalk/Logs' })],
+    });
+  });
+
+  test('counts the tile server\'s 5xx lines', () => {
+    template.resourcePropertiesCountIs('AWS::Logs::MetricFilter', {
+      FilterPattern: '{ $.status >= 500 }',
+    }, 1);
+    template.hasResourceProperties('AWS::Logs::MetricFilter', {
+      FilterPattern: '{ $.status >= 500 }',
+      LogGroupName: { Ref: Match.stringLikeRegexp('^GridwalkTiles') },
+      MetricTransformations: [Match.objectLike({ MetricName: 'TilesHttp5xx' })],
+    });
+  });
+
+  test('saves the Logs Insights queries', () => {
+    template.resourceCountIs('AWS::Logs::QueryDefinition', 6);
+    template.hasResourceProperties('AWS::Logs::QueryDefinition', {
+      Name: 'GridwalkInfrastructureTest/Slowest tile queries',
+      QueryString: Match.stringLikeRegexp('sort durationMs desc'),
+    });
+  });
+});
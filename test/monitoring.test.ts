@@ -0,0 +1,74 @@
+import { Match, Template } from 'aws-cdk-lib/assertions';
+import { GridwalkInfrastructureStack } from '../lib/gridwalk-infrastructure-stack';
+import { createApp, prodConfig } from './util';
+
+// Monitoring needs most of the platform, so it is tested through the full stack
+function stackTemplate(): Template {
+  const config = prodConfig();
+  config.monitoring.alarmWebhooks = ['https://hooks.example.com/gridwalk'];
+  const stack = new GridwalkInfrastructureStack(createApp(), 'GridwalkInfrastructureTest', {
+    env: { account: config.account, region: config.region },
+    config: config,
+  });
+  return Template.fromStack(stack);
+}
+
+describe('Monitoring', () => {
+  const template = stackTemplate();
+
+  test('creates one dashboard', () => {
+    template.resourceCountIs('AWS::CloudWatch::Dashboard', 1);
+  });
+
+  test('routes alarms to email and webhook subscriptions', () => {
+    template.hasResourceProperties('AWS::SNS::Subscription', { Protocol: 'email', Endpoint: 'admin@gridwalk.co' });
+    template.hasResourceProperties('AWS::SNS::Subscription', {
+      Protocol: 'https',
+      Endpoint: 'https://hooks.example.com/gridwalk',
+    });
+
+    // Blue/green rollback alarms only stop the deployment
+    const alarms = Object.values(template.findResources('AWS::CloudWatch::Alarm'))
+      .filter((alarm) => !alarm.Properties.AlarmDescription.startsWith('Rolls back'));
+    expect(alarms.length).toBeGreaterThan(0);
+    for (const alarm of alarms) {
+      expect(alarm.Properties.AlarmActions).toEqual([{ Ref: expect.stringMatching(/^MonitoringAlarmTopic/) }]);
+    }
+  });
+
+  test.each([
+    ['Backend p95 response time is high', 2],
+    ['Tiles CPU is high', 85],
+    ['Database CPU is high', 80],
+    ['Database is running out of storage', 4 * 1024 ** 3],
+  ])('alarms when "%s" at the configured threshold', (description, threshold) => {
+    template.hasResourceProperties('AWS::CloudWatch::Alarm', {
+      AlarmDescription: description,
+      Threshold: threshold,
+    });
+  });
+
+  test('alarms on DynamoDB throttles for both tables', () => {
+    template.resourcePropertiesCountIs('AWS::CloudWatch::Alarm', {
+      AlarmDescription: Match.stringLikeRegexp('Table requests are being throttled'),
+    }, 2);
+  });
+
+  test('alarms on the first init function error', () => {
+    template.hasResourceProperties('AWS::CloudWatch::Alarm', {
+      AlarmDescription: 'DatabaseInit is failing',
+      EvaluationPeriods: 1,
+      Metrics: [
+        Match.objectLike({
+          MetricStat: Match.objectLike({
+            Metric: {
+              MetricName: 'Errors',
+              Namespace: 'AWS/Lambda',
+              Dimensions: [{ Name: 'FunctionName', Value: { Ref: Match.stringLikeRegexp('^DatabaseDatabaseInit') } }],
+            },
+          }),
+        }),
+      ],
+    });
+  });
+});
@@ -0,0 +1,120 @@
+import * as route53 from 'aws-cdk-lib/aws-route53';
+import { Match, Template } from 'aws-cdk-lib/assertions';
+import { DatabaseSubnets, Network } from '../lib/network';
+import { createStack } from './util';
+
+function networkTemplate(zoneNames: string[], egress: 'nat' | 'endpoints' = 'nat', databaseSubnets?: DatabaseSubnets): Template {
+  const stack = createStack();
+  const hostedZones = zoneNames.map((zoneName, i) =>
+    route53.PublicHostedZone.fromPublicHostedZoneAttributes(stack, `Zone${i}`, {
+      hostedZoneId: `Z${i}`,
+      zoneName: zoneName,
+    })
+  );
+  new Network(stack, 'Network', {
+    cidr: '10.0.0.0/16',
+    hostedZones: hostedZones,
+    egress: egress,
+    databaseSubnets: databaseSubnets,
+  });
+  return Template.fromStack(stack);
+}
+
+describe('Network', () => {
+  test('creates public, compute and database subnets in each AZ', () => {
+    const template = networkTemplate(['gridwalk.co']);
+
+    template.resourceCountIs('AWS::EC2::Subnet', 9);
+    template.resourcePropertiesCountIs('AWS::EC2::Subnet', { MapPublicIpOnLaunch: true }, 3);
+    template.resourcePropertiesCountIs('AWS::EC2::Subnet', { MapPublicIpOnLaunch: false }, 6);
+    template.resourceCountIs('AWS::EC2::NatGateway', 1);
+  });
+
+  test('uses interface endpoints instead of NAT for endpoints egress', () => {
+    const template = networkTemplate(['gridwalk.co'], 'endpoints');
+
+    template.resourceCountIs('AWS::EC2::NatGateway', 0);
+    template.resourcePropertiesCountIs('AWS::EC2::VPCEndpoint', { VpcEndpointType: 'Interface' }, 8);
+    template.resourcePropertiesCountIs('AWS::EC2::VPCEndpoint', { VpcEndpointType: 'Gateway' }, 2);
+    template.hasResourceProperties('AWS::EC2::VPCEndpoint', {
+      ServiceName: 'com.amazonaws.us-east-1.events',
+      VpcEndpointType: 'Interface',
+    });
+  });
+
+  test('places the database subnet group in the isolated subnets', () => {
+    const template = networkTemplate(['gridwalk.co']);
+
+    template.hasResourceProperties('AWS::RDS::DBSubnetGroup', {
+      SubnetIds: Match.arrayWith([
+        { Ref: Match.stringLikeRegexp('NetworkVpcDatabaseSubnetSubnet1') },
+      ]),
+    });
+  });
+
+  test('keeps the subnet group of the public subnets for an instance created before the database subnets', () => {
+    const template = networkTemplate(['gridwalk.co'], 'nat', 'public');
+
+    template.resourceCountIs('AWS::RDS::DBSubnetGroup', 1);
+    template.hasResourceProperties('AWS::RDS::DBSubnetGroup', {
+      DBSubnetGroupDescription: 'Subnet Group with all subnets',
+      SubnetIds: [
+        { Ref: Match.stringLikeRegexp('NetworkVpcPublicSubnetSubnet1') },
+        { Ref: Match.stringLikeRegexp('NetworkVpcPublicSubnetSubnet2') },
+        { Ref: Match.stringLikeRegexp('NetworkVpcPublicSubnetSubnet3') },
+      ],
+    });
+  });
+
+  test('redirects HTTP to HTTPS and returns 404 by default on HTTPS', () => {
+    const template = networkTemplate(['gridwalk.co']);
+
+    template.hasResourceProperties('AWS::ElasticLoadBalancingV2::Listener', {
+      Port: 80,
+      DefaultActions: [
+        Match.objectLike({
+          Type: 'redirect',
+          RedirectConfig: Match.objectLike({ Port: '443', Protocol: 'HTTPS', StatusCode: 'HTTP_301' }),
+        }),
+      ],
+    });
+    template.hasResourceProperties('AWS::ElasticLoadBalancingV2::Listener', {
+      Port: 443,
+      Protocol: 'HTTPS',
+      DefaultActions: [
+        Match.objectLike({ Type: 'fixed-response', FixedResponseConfig: { StatusCode: '404' } }),
+      ],
+    });
+  });
+
+  test('creates a certificate and alias records per hosted zone', () => {
+    const template = networkTemplate(['gridwalk.co', 'example.com']);
+
+    template.resourceCountIs('AWS::CertificateManager::Certificate', 2);
+    for (const zoneName of ['gridwalk.co', 'example.com']) {
+      template.hasResourceProperties('AWS::CertificateManager::Certificate', {
+        DomainName: zoneName,
+        SubjectAlternativeNames: [`*.${zoneName}`],
+      });
+      template.hasResourceProperties('AWS::Route53::RecordSet', {
+        Name: `*.${zoneName}.`,
+        Type: 'A',
+      });
+    }
+  });
+
+  test('serves the other zones\' certificates by SNI', () => {
+    const template = networkTemplate(['gridwalk.co', 'example.com', 'example.org']);
+
+    template.hasResourceProperties('AWS::ElasticLoadBalancingV2::Listener', {
+      Port: 443,
+      Certificates: [{ CertificateArn: { Ref: Match.stringLikeRegexp('^Networkgridwalkco') } }],
+    });
+    template.resourceCountIs('AWS::ElasticLoadBalancingV2::ListenerCertificate', 2);
+    for (const certificate of ['^Networkexamplecom', '^Networkexampleorg']) {
+      template.hasResourceProperties('AWS::ElasticLoadBalancingV2::ListenerCertificate', {
+        Certificates: [{ CertificateArn: { Ref: Match.stringLikeRegexp(certificate) } }],
+      });
+    }
+  });
+});
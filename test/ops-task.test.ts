@@ -0,0 +1,99 @@
+import * as cdk from 'aws-cdk-lib';
+import * as ecs from 'aws-cdk-lib/aws-ecs';
+import * as logs from 'aws-cdk-lib/aws-logs';
+import * as route53 from 'aws-cdk-lib/aws-route53';
+import { Match, Template } from 'aws-cdk-lib/assertions';
+import { Database } from '../lib/data';
+import { Network } from '../lib/network';
+import { OpsDatabaseRole, OpsTask } from '../lib/ops-task';
+import { createStack } from './util';
+
+function opsTemplate(databaseRole?: OpsDatabaseRole): Template {
+  const stack = createStack();
+  const network = new Network(stack, 'Network', {
+    cidr: '10.0.0.0/16',
+    hostedZones: [
+      route53.PublicHostedZone.fromPublicHostedZoneAttributes(stack, 'Zone', {
+        hostedZoneId: 'Z1',
+        zoneName: 'gridwalk.co',
+      }),
+    ],
+    egress: 'nat',
+  });
+  const database = new Database(stack, 'Database', {
+    network: {
+      vpc: network.vpc,
+      subnetGroup: network.subnetGroup,
+      computeSubnets: network.computeSubnets,
+    },
+    databaseName: 'gridwalk',
+    schemaName: 'geo',
+    allocatedStorage: 20,
+    logRetention: logs.RetentionDays.ONE_MONTH,
+  });
+  new OpsTask(stack, 'Ops', {
+    network: { vpc: network.vpc, computeSubnets: network.computeSubnets },
+    cluster: new ecs.Cluster(stack, 'Cluster', { vpc: network.vpc }),
+    executeCommandLogGroup: new logs.LogGroup(stack, 'ExecuteCommandLogGroup'),
+    database: database,
+    databaseRole: databaseRole,
+    idleTimeout: cdk.Duration.minutes(30),
+    cpu: 256,
+    memoryLimitMiB: 1024,
+    logRetention: logs.RetentionDays.ONE_MONTH,
+  });
+  return Template.fromStack(stack);
+}
+
+function passwordSecret(template: Template): unknown {
+  const [container] = Object.values(template.findResources('AWS::ECS::TaskDefinition'))[0].Properties.ContainerDefinitions;
+  return container.Secrets.find((secret: { Name: string }) => secret.Name === 'PGPASSWORD').ValueFrom;
+}
+
+describe('OpsTask', () => {
+  const template = opsTemplate();
+
+  test('runs nothing until the task is started', () => {
+    template.resourceCountIs('AWS::ECS::Service', 0);
+    template.resourceCountIs('AWS::EC2::Instance', 0);
+    template.hasResourceProperties('AWS::ECS::TaskDefinition', {
+      Family: 'TestStack-ops',
+      ContainerDefinitions: [
+        Match.objectLike({
+          Environment: [{ Name: 'IDLE_TIMEOUT_MINUTES', Value: '30' }],
+        }),
+      ],
+    });
+  });
+
+  test('connects as gis_admin by default', () => {
+    expect(JSON.stringify(passwordSecret(template))).toMatch(/DatabaseGisadmin/);
+    expect(JSON.stringify(passwordSecret(opsTemplate('read')))).toMatch(/DatabaseRead/);
+  });
+
+  test('is only reachable through Session Manager', () => {
+    expect(template.findResources('AWS::EC2::SecurityGroupIngress', {
+      Properties: { GroupId: { 'Fn::GetAtt': [Match.stringLikeRegexp('^OpsSecurityGroup'), 'GroupId'] } },
+    })).toEqual({});
+    template.hasResourceProperties('AWS::EC2::SecurityGroupIngress', {
+      Description: 'Allow inbound to database from ops task',
+      FromPort: 5432,
+      SourceSecurityGroupId: { 'Fn::GetAtt': [Match.stringLikeRegexp('^OpsSecurityGroup'), 'GroupId'] },
+    });
+    template.hasResourceProperties('AWS::IAM::Policy', {
+      PolicyName: Match.stringLikeRegexp('^OpsTaskDefTaskRoleDefaultPolicy'),
+      PolicyDocument: {
+        Statement: Match.arrayWith([
+          Match.objectLike({ Action: Match.arrayWith(['ssmmessages:OpenDataChannel']), Resource: '*' }),
+        ]),
+      },
+    });
+  });
+
+  test('outputs the command that starts it', () => {
+    const outputs = Object.entries(template.findOutputs('*'))
+      .filter(([id]) => id.startsWith('OpsRunTaskCommand'))
+      .map(([, output]) => JSON.stringify(output.Value));
+    expect(outputs).toEqual([expect.stringContaining('aws ecs run-task --enable-execute-command --launch-type FARGATE')]);
+  });
+});
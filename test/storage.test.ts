@@ -0,0 +1,54 @@
+import { Match, Template } from 'aws-cdk-lib/assertions';
+import { ImageRepositories, ImageRepositoriesProps } from '../lib/storage';
+import { createStack } from './util';
+
+function repositoriesTemplate(props: Partial<ImageRepositoriesProps> = {}): Template {
+  const stack = createStack();
+  new ImageRepositories(stack, 'ImageRepositories', {
+    keepReleases: 30,
+    releaseTagPrefixes: ['v'],
+    untaggedExpiryDays: 7,
+    replicationRegions: [],
+    ...props,
+  });
+  return Template.fromStack(stack);
+}
+
+describe('ImageRepositories', () => {
+  test('makes tags immutable and scans on push', () => {
+    repositoriesTemplate().resourcePropertiesCountIs('AWS::ECR::Repository', {
+      ImageTagMutability: 'IMMUTABLE',
+      ImageScanningConfiguration: { ScanOnPush: true },
+    }, 3);
+  });
+
+  test('keeps the latest releases and expires untagged images', () => {
+    const repository = Object.values(repositoriesTemplate().findResources('AWS::ECR::Repository'))[0];
+    const policy = JSON.parse(repository.Properties.LifecyclePolicy.LifecyclePolicyText);
+    expect(policy.rules).toEqual([
+      expect.objectContaining({
+        rulePriority: 1,
+        selection: { tagStatus: 'untagged', countType: 'sinceImagePushed', countNumber: 7, countUnit: 'days' },
+      }),
+      expect.objectContaining({
+        rulePriority: 2,
+        selection: { tagStatus: 'tagged', tagPrefixList: ['v'], countType: 'imageCountMoreThan', countNumber: 30 },
+      }),
+    ]);
+  });
+
+  test('only replicates when regions are set', () => {
+    repositoriesTemplate().resourceCountIs('AWS::ECR::ReplicationConfiguration', 0);
+
+    repositoriesTemplate({ replicationRegions: ['eu-west-2'] }).hasResourceProperties('AWS::ECR::ReplicationConfiguration', {
+      ReplicationConfiguration: {
+        Rules: [{
+          Destinations: [{ Region: 'eu-west-2', RegistryId: '017820660020' }],
+          RepositoryFilters: Match.arrayWith([
+            { Filter: { Ref: Match.stringLikeRegexp('^ImageRepositoriesGridwalkBackend') }, FilterType: 'PREFIX_MATCH' },
+          ]),
+        }],
+      },
+    });
+  });
+});
@@ -0,0 +1,41 @@
+import * as cdk from 'aws-cdk-lib';
+import * as dynamodb from 'aws-cdk-lib/aws-dynamodb';
+import { Match, Template } from 'aws-cdk-lib/assertions';
+import { TableBackups } from '../lib/table-backups';
+import { createStack } from './util';
+
+describe('TableBackups', () => {
+  const stack = createStack();
+  const tables = ['First', 'Second'].map((name) => new dynamodb.TableV2(stack, name, {
+    partitionKey: { name: 'PK', type: dynamodb.AttributeType.STRING },
+  }));
+  new TableBackups(stack, 'TableBackups', {
+    tables: tables,
+    schedule: 'cron(0 5 * * ? *)',
+    retention: cdk.Duration.days(90),
+  });
+  const template = Template.fromStack(stack);
+
+  test('backs up on the schedule and keeps recovery points for the retention', () => {
+    template.hasResourceProperties('AWS::Backup::BackupPlan', {
+      BackupPlan: {
+        BackupPlanRule: [Match.objectLike({
+          ScheduleExpression: 'cron(0 5 * * ? *)',
+          Lifecycle: { DeleteAfterDays: 90 },
+        })],
+      },
+    });
+  });
+
+  test('selects every table', () => {
+    template.hasResourceProperties('AWS::Backup::BackupSelection', {
+      BackupSelection: Match.objectLike({
+        Resources: ['First', 'Second'].map((name) => ({ 'Fn::GetAtt': [Match.stringLikeRegexp(`^${name}`), 'Arn'] })),
+      }),
+    });
+  });
+
+  test('retains the vault', () => {
+    template.hasResource('AWS::Backup::BackupVault', { DeletionPolicy: 'Retain' });
+  });
+});
@@ -0,0 +1,60 @@
+import * as dynamodb from 'aws-cdk-lib/aws-dynamodb';
+import * as lambda from 'aws-cdk-lib/aws-lambda';
+import { Match, Template } from 'aws-cdk-lib/assertions';
+import { TableChanges } from '../lib/table-changes';
+import { createStack } from './util';
+
+function tableChangesTemplate(consumer?: (stack: ReturnType<typeof createStack>) => lambda.IFunction): Template {
+  const stack = createStack();
+  const table = new dynamodb.TableV2(stack, 'Table', {
+    partitionKey: { name: 'PK', type: dynamodb.AttributeType.STRING },
+    dynamoStream: dynamodb.StreamViewType.NEW_AND_OLD_IMAGES,
+  });
+  new TableChanges(stack, 'TableChanges', { table: table, consumer: consumer?.(stack) });
+  return Template.fromStack(stack);
+}
+
+describe('TableChanges', () => {
+  test('reads the stream with retries and a dead letter queue', () => {
+    const template = tableChangesTemplate();
+
+    template.hasResourceProperties('AWS::Lambda::EventSourceMapping', {
+      EventSourceArn: { 'Fn::GetAtt': [Match.stringLikeRegexp('^Table'), 'StreamArn'] },
+      StartingPosition: 'TRIM_HORIZON',
+      BisectBatchOnFunctionError: true,
+      FunctionResponseTypes: ['ReportBatchItemFailures'],
+      MaximumRetryAttempts: 5,
+      DestinationConfig: {
+        OnFailure: { Destination: { 'Fn::GetAtt': [Match.stringLikeRegexp('DeadLetterQueue'), 'Arn'] } },
+      },
+    });
+  });
+
+  test('publishes changes to EventBridge by default', () => {
+    const template = tableChangesTemplate();
+
+    template.hasResourceProperties('AWS::Lambda::Function', {
+      Environment: {
+        Variables: Match.objectLike({ EVENT_SOURCE: 'gridwalk.tables', EVENT_DETAIL_TYPE: 'Table Item Changed' }),
+      },
+    });
+    template.hasResourceProperties('AWS::IAM::Policy', {
+      PolicyDocument: {
+        Statement: Match.arrayWith([Match.objectLike({ Action: 'events:PutEvents' })]),
+      },
+    });
+  });
+
+  test('feeds the stream to a given consumer', () => {
+    const template = tableChangesTemplate((stack) => new lambda.Function(stack, 'Audit', {
+      runtime: lambda.Runtime.NODEJS_20_X,
+      handler: 'index.handler',
+      code: lambda.Code.fromInline('exports.handler = async () => ({ batchItemFailures: [] });'),
+    }));
+
+    template.resourceCountIs('AWS::Lambda::Function', 1);
+    template.hasResourceProperties('AWS::Lambda::EventSourceMapping', {
+      FunctionName: { Ref: Match.stringLikeRegexp('^Audit') },
+    });
+  });
+});
@@ -0,0 +1,147 @@
+import * as cdk from 'aws-cdk-lib';
+import * as route53 from 'aws-cdk-lib/aws-route53';
+import { Match, Template } from 'aws-cdk-lib/assertions';
+import { Network } from '../lib/network';
+import { TileCache, viewsRefreshedEvent } from '../lib/tile-cache';
+import { createApp, createStack } from './util';
+
+function tileCacheTemplate(prerenderedFailover: boolean, stack: cdk.Stack = createStack()): Template {
+  const hostedZone = route53.PublicHostedZone.fromPublicHostedZoneAttributes(stack, 'Zone', {
+    hostedZoneId: 'Z1',
+    zoneName: 'gridwalk.co',
+  });
+  const network = new Network(stack, 'Network', {
+    cidr: '10.0.0.0/16',
+    hostedZones: [hostedZone],
+    egress: 'nat',
+  });
+  new TileCache(stack, 'TileCache', {
+    hostedZone: hostedZone,
+    domainName: 'tiles.gridwalk.co',
+    originDomainName: 'tiles-origin.gridwalk.co',
+    certificate: network.certificates['gridwalk.co'],
+    tileTtl: cdk.Duration.days(1),
+    staticTtl: cdk.Duration.days(7),
+    prerenderedFailover: prerenderedFailover,
+  });
+  return Template.fromStack(stack);
+}
+
+describe('TileCache', () => {
+  test('caches tiles on the path alone for the configured TTL', () => {
+    const template = tileCacheTemplate(false);
+
+    template.hasResourceProperties('AWS::CloudFront::CachePolicy', {
+      CachePolicyConfig: Match.objectLike({
+        MinTTL: 86400,
+        DefaultTTL: 86400,
+        MaxTTL: 86400,
+        ParametersInCacheKeyAndForwardedToOrigin: Match.objectLike({
+          QueryStringsConfig: { QueryStringBehavior: 'none' },
+          HeadersConfig: { HeaderBehavior: 'none' },
+          CookiesConfig: { CookieBehavior: 'none' },
+        }),
+      }),
+    });
+  });
+
+  test('serves static assets from the bucket', () => {
+    const template = tileCacheTemplate(false);
+
+    template.hasResourceProperties('AWS::CloudFront::Distribution', {
+      DistributionConfig: Match.objectLike({
+        Aliases: ['tiles.gridwalk.co'],
+        CacheBehaviors: Match.arrayWith([
+          Match.objectLike({ PathPattern: '/static/*' }),
+        ]),
+      }),
+    });
+    template.resourceCountIs('AWS::CloudFront::Distribution', 1);
+  });
+
+  test('fails over to pre-rendered tiles when enabled', () => {
+    tileCacheTemplate(false).hasResourceProperties('AWS::CloudFront::Distribution', {
+      DistributionConfig: Match.objectLike({ OriginGroups: Match.absent() }),
+    });
+    tileCacheTemplate(true).hasResourceProperties('AWS::CloudFront::Distribution', {
+      DistributionConfig: Match.objectLike({
+        OriginGroups: Match.objectLike({
+          Quantity: 1,
+          Items: [
+            Match.objectLike({
+              FailoverCriteria: { StatusCodes: { Items: [500, 502, 503, 504], Quantity: 4 } },
+            }),
+          ],
+        }),
+      }),
+    });
+  });
+
+  test('sends neither origin the viewer\'s Host header', () => {
+    const template = tileCacheTemplate(true);
+
+    // S3 picks the bucket from the Host header, so tiles.gridwalk.co would miss it
+    template.resourceCountIs('AWS::CloudFront::OriginRequestPolicy', 0);
+    template.hasResourceProperties('AWS::CloudFront::Distribution', {
+      DistributionConfig: Match.objectLike({
+        DefaultCacheBehavior: Match.objectLike({ OriginRequestPolicyId: Match.absent() }),
+        CacheBehaviors: Match.not(Match.arrayWith([
+          Match.objectLike({ OriginRequestPolicyId: Match.anyValue() }),
+        ])),
+        Origins: Match.arrayWith([
+          Match.objectLike({ DomainName: 'tiles-origin.gridwalk.co' }),
+          Match.objectLike({ S3OriginConfig: Match.anyValue(), OriginPath: '/prerendered' }),
+        ]),
+      }),
+    });
+  });
+
+  test('lets map clients on other origins read every path', () => {
+    const template = tileCacheTemplate(false);
+
+    template.hasResourceProperties('AWS::CloudFront::ResponseHeadersPolicy', {
+      ResponseHeadersPolicyConfig: Match.objectLike({
+        CorsConfig: Match.objectLike({
+          AccessControlAllowCredentials: false,
+          AccessControlAllowMethods: { Items: ['GET', 'HEAD'] },
+          AccessControlAllowOrigins: { Items: ['*'] },
+        }),
+      }),
+    });
+    const corsPolicy = { ResponseHeadersPolicyId: { Ref: Match.stringLikeRegexp('^TileCacheCorsPolicy') } };
+    template.hasResourceProperties('AWS::CloudFront::Distribution', {
+      DistributionConfig: Match.objectLike({
+        DefaultCacheBehavior: Match.objectLike(corsPolicy),
+        CacheBehaviors: [
+          Match.objectLike({ PathPattern: '/tiles.json', ...corsPolicy }),
+          Match.objectLike({ PathPattern: '/static/*', ...corsPolicy }),
+        ],
+      }),
+    });
+  });
+
+  test('invalidates the cache when the views are refreshed', () => {
+    const template = tileCacheTemplate(false);
+
+    template.hasResourceProperties('AWS::Events::Rule', {
+      EventPattern: {
+        source: [viewsRefreshedEvent.source],
+        'detail-type': [viewsRefreshedEvent.detailType],
+      },
+    });
+    template.hasResourceProperties('AWS::IAM::Policy', {
+      PolicyDocument: {
+        Statement: Match.arrayWith([
+          Match.objectLike({ Action: 'cloudfront:CreateInvalidation' }),
+        ]),
+      },
+    });
+  });
+
+  test('requires a stack in us-east-1', () => {
+    const stack = new cdk.Stack(createApp(), 'EuStack', {
+      env: { account: '017820660020', region: 'eu-west-2' },
+    });
+    expect(() => tileCacheTemplate(false, stack)).toThrow(/us-east-1/);
+  });
+});
@@ -0,0 +1,34 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import * as cdk from 'aws-cdk-lib';
+import { GridwalkConfig, loadConfig } from '../lib/config';
+
+const root = path.join(__dirname, '..');
+
+// An app with the project's feature flags and cached lookups, which skips
+// Lambda bundling so that tests do not depend on the handlers' build. Images are
+// pinned the way CI pins them.
+export function createApp(context: { [key: string]: unknown } = {}): cdk.App {
+  return new cdk.App({
+    context: {
+      ...JSON.parse(fs.readFileSync(path.join(root, 'cdk.json'), 'utf8')).context,
+      ...JSON.parse(fs.readFileSync(path.join(root, 'cdk.context.json'), 'utf8')),
+      'aws:cdk:bundling-stacks': [],
+      backendImage: 'v1.0.0',
+      uiImage: 'v1.0.0',
+      productImage: 'sha256:' + 'a'.repeat(64),
+      ...context,
+    },
+  });
+}
+
+export function prodConfig(): GridwalkConfig {
+  return loadConfig(createApp({ env: 'prod' }));
+}
+
+export function createStack(app: cdk.App = createApp()): cdk.Stack {
+  const config = prodConfig();
+  return new cdk.Stack(app, 'TestStack', {
+    env: { account: config.account, region: config.region },
+  });
+}
@@ -0,0 +1,113 @@
+import * as logs from 'aws-cdk-lib/aws-logs';
+import * as route53 from 'aws-cdk-lib/aws-route53';
+import { Match, Template } from 'aws-cdk-lib/assertions';
+import { Network } from '../lib/network';
+import { Waf, WafProps } from '../lib/waf';
+import { createStack } from './util';
+
+function wafTemplate(props: Partial<WafProps> = {}): Template {
+  const stack = createStack();
+  const network = new Network(stack, 'Network', {
+    cidr: '10.0.0.0/16',
+    hostedZones: [
+      route53.PublicHostedZone.fromPublicHostedZoneAttributes(stack, 'Zone', {
+        hostedZoneId: 'Z1',
+        zoneName: 'gridwalk.co',
+      }),
+    ],
+    egress: 'nat',
+  });
+  new Waf(stack, 'Waf', {
+    loadBalancer: network.alb,
+    rateLimits: [{ name: 'Api', hosts: ['api.gridwalk.co'], limit: 2000 }],
+    allowedIps: [],
+    blockedIps: [],
+    countOnly: false,
+    countOnlyRules: [],
+    logDestination: 'cloudwatch',
+    logRetention: logs.RetentionDays.ONE_MONTH,
+    ...props,
+  });
+  return Template.fromStack(stack);
+}
+
+function rules(template: Template): { Name: string; Action?: object; OverrideAction?: object }[] {
+  return Object.values(template.findResources('AWS::WAFv2::WebACL'))[0].Properties.Rules;
+}
+
+describe('Waf', () => {
+  test('attaches the web ACL to the load balancer', () => {
+    wafTemplate().hasResourceProperties('AWS::WAFv2::WebACLAssociation', {
+      ResourceArn: { Ref: Match.stringLikeRegexp('^NetworkApplicationLoadBalancer') },
+    });
+  });
+
+  test('blocks with the managed rule groups and rate limits', () => {
+    const template = wafTemplate();
+    expect(rules(template).map((rule) => rule.Name)).toEqual([
+      'AWSManagedRulesAmazonIpReputationList',
+      'RateLimitApi',
+      'AWSManagedRulesCommonRuleSet',
+      'AWSManagedRulesKnownBadInputsRuleSet',
+    ]);
+    template.hasResourceProperties('AWS::WAFv2::WebACL', {
+      Rules: Match.arrayWith([
+        Match.objectLike({
+          Name: 'RateLimitApi',
+          Action: { Block: {} },
+          Statement: {
+            RateBasedStatement: Match.objectLike({
+              Limit: 2000,
+              ScopeDownStatement: {
+                ByteMatchStatement: Match.objectLike({ SearchString: 'api.gridwalk.co', PositionalConstraint: 'EXACTLY' }),
+              },
+            }),
+          },
+        }),
+      ]),
+    });
+  });
+
+  test('counts every rule in count only mode', () => {
+    for (const rule of rules(wafTemplate({ countOnly: true }))) {
+      expect(rule.Action ?? rule.OverrideAction).toEqual({ Count: {} });
+    }
+  });
+
+  test('counts individual rules while the others block', () => {
+    const actions = Object.fromEntries(rules(wafTemplate({ countOnlyRules: ['RateLimitApi'] }))
+      .map((rule) => [rule.Name, rule.Action ?? rule.OverrideAction]));
+    expect(actions.RateLimitApi).toEqual({ Count: {} });
+    expect(actions.AWSManagedRulesCommonRuleSet).toEqual({ None: {} });
+  });
+
+  test('rejects unknown count only rules', () => {
+    expect(() => wafTemplate({ countOnlyRules: ['RateLimitTiles'] })).toThrow(/RateLimitTiles/);
+  });
+
+  test('allows and blocks listed addresses before the other rules', () => {
+    const template = wafTemplate({ allowedIps: ['203.0.113.0/24', '2001:db8::/32'], blockedIps: ['198.51.100.7/32'] });
+    template.resourceCountIs('AWS::WAFv2::IPSet', 3);
+    template.hasResourceProperties('AWS::WAFv2::IPSet', { IPAddressVersion: 'IPV6', Addresses: ['2001:db8::/32'] });
+
+    const [allow, deny] = rules(template);
+    expect(allow).toMatchObject({ Name: 'AllowList', Action: { Allow: {} } });
+    expect(deny).toMatchObject({ Name: 'DenyList', Action: { Block: {} } });
+  });
+
+  test('logs to CloudWatch or S3 with credentials redacted', () => {
+    wafTemplate().hasResourceProperties('AWS::Logs::LogGroup', {
+      LogGroupName: 'aws-waf-logs-teststack',
+      RetentionInDays: 30,
+    });
+
+    const template = wafTemplate({ logDestination: 's3' });
+    template.hasResourceProperties('AWS::S3::Bucket', {
+      BucketName: 'aws-waf-logs-teststack-017820660020',
+    });
+    template.hasResourceProperties('AWS::WAFv2::LoggingConfiguration', {
+      LogDestinationConfigs: [{ 'Fn::GetAtt': [Match.stringLikeRegexp('^WafLogBucket'), 'Arn'] }],
+      RedactedFields: [{ SingleHeader: { Name: 'authorization' } }, { SingleHeader: { Name: 'cookie' } }],
+    });
+  });
+});